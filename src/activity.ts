@@ -0,0 +1,145 @@
+/**
+ * StreamShortcut MCP Server - Activity Store
+ *
+ * A SQLite-backed Durable Object holding recent webhook events for one
+ * workspace, so "what changed" questions don't have to poll the API.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import { ActivityEvent, Env } from "./types";
+
+// Events older than this are pruned on write
+const RETENTION_DAYS = 30;
+const MAX_EVENTS = 50000;
+
+export interface ActivityFilter {
+  // Events on any of these stories...
+  storyIds?: number[];
+  // ...or tagged with this epic
+  epicId?: number;
+  // ISO timestamp
+  since?: string;
+  limit: number;
+}
+
+interface EventRow extends Record<string, SqlStorageValue> {
+  id: string;
+  occurred_at: string;
+  workspace: string;
+  type: string;
+  story_id: number | null;
+  epic_id: number | null;
+  member_id: string | null;
+  summary: string;
+  details: string;
+}
+
+/**
+ * The store for a workspace (by URL slug)
+ */
+export function activityStore(env: Env, workspace: string): DurableObjectStub<ActivityStore> {
+  if (!env.ACTIVITY) throw new Error("ACTIVITY Durable Object binding is not configured");
+  return env.ACTIVITY.get(env.ACTIVITY.idFromName(workspace));
+}
+
+export class ActivityStore extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        occurred_at TEXT NOT NULL,
+        workspace TEXT NOT NULL,
+        type TEXT NOT NULL,
+        story_id INTEGER,
+        epic_id INTEGER,
+        member_id TEXT,
+        summary TEXT NOT NULL,
+        details TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS events_occurred ON events (occurred_at);
+      CREATE INDEX IF NOT EXISTS events_story ON events (story_id, occurred_at);
+      CREATE INDEX IF NOT EXISTS events_epic ON events (epic_id, occurred_at);
+    `);
+  }
+
+  /**
+   * Store events, ignoring redeliveries, and prune old ones
+   */
+  async record(events: ActivityEvent[]): Promise<number> {
+    let inserted = 0;
+    for (const e of events) {
+      const cursor = this.sql.exec(
+        `INSERT OR IGNORE INTO events
+           (id, occurred_at, workspace, type, story_id, epic_id, member_id, summary, details)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        e.id,
+        e.occurred_at,
+        e.workspace,
+        e.type,
+        e.story_id,
+        e.epic_id,
+        e.member_id,
+        e.summary,
+        JSON.stringify(e.details)
+      );
+      inserted += cursor.rowsWritten > 0 ? 1 : 0;
+    }
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 86400000).toISOString();
+    this.sql.exec("DELETE FROM events WHERE occurred_at < ?", cutoff);
+    this.sql.exec(
+      `DELETE FROM events WHERE id IN (
+         SELECT id FROM events ORDER BY occurred_at DESC LIMIT -1 OFFSET ?
+       )`,
+      MAX_EVENTS
+    );
+
+    return inserted;
+  }
+
+  /**
+   * Most recent events first
+   */
+  async query(filter: ActivityFilter): Promise<ActivityEvent[]> {
+    const where: string[] = [];
+    const bindings: SqlStorageValue[] = [];
+
+    const scope: string[] = [];
+    if (filter.storyIds && filter.storyIds.length > 0) {
+      // One JSON binding keeps large epics under the bound-parameter limit
+      scope.push("story_id IN (SELECT value FROM json_each(?))");
+      bindings.push(JSON.stringify(filter.storyIds));
+    }
+    if (filter.epicId !== undefined) {
+      scope.push("epic_id = ?");
+      bindings.push(filter.epicId);
+    }
+    if (scope.length > 0) where.push(`(${scope.join(" OR ")})`);
+
+    if (filter.since) {
+      where.push("occurred_at >= ?");
+      bindings.push(filter.since);
+    }
+
+    const rows = this.sql
+      .exec<EventRow>(
+        `SELECT * FROM events
+         ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY occurred_at DESC, id
+         LIMIT ?`,
+        ...bindings,
+        filter.limit
+      )
+      .toArray();
+
+    return rows.map((row) => ({
+      ...row,
+      type: row.type as ActivityEvent["type"],
+      details: JSON.parse(row.details),
+    }));
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * StreamShortcut MCP Server - Audit Log
+ *
+ * Every write sent to Shortcut through the server is recorded, with who
+ * made it (member and token fingerprint), the MCP action, the payload and,
+ * for stories, the changed fields before and after. Entries live in a
+ * SQLite-backed Durable Object per workspace.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import { AuditChange, AuditEntry, Env, ShortcutMember, ShortcutStory } from "./types";
+import { errorMessage } from "./utils";
+
+const RETENTION_DAYS = 365;
+const FINGERPRINT_LENGTH = 12;
+
+export interface AuditFilter {
+  id?: number;
+  storyId?: number;
+  memberId?: string;
+  // ISO timestamps
+  since?: string;
+  until?: string;
+  tokenFingerprint?: string;
+  // Only successful story updates and creates not yet undone
+  undoable?: boolean;
+  limit: number;
+}
+
+// What a client records; the recorder adds who, when and which action
+export type AuditInput = Pick<AuditEntry, "method" | "path" | "story_ids" | "payload"> & {
+  changes?: AuditChange[];
+  error?: string;
+};
+
+interface AuditRow extends Record<string, SqlStorageValue> {
+  id: number;
+  occurred_at: string;
+  token_fingerprint: string;
+  member_id: string;
+  member_name: string;
+  action: string;
+  method: string;
+  path: string;
+  story_ids: string;
+  payload: string;
+  changes: string;
+  ok: number;
+  error: string | null;
+  undone_at: string | null;
+}
+
+/**
+ * The audit log for a workspace (by URL slug)
+ */
+export function auditLog(env: Env, workspace: string): DurableObjectStub<AuditLog> {
+  if (!env.AUDIT) throw new Error("AUDIT Durable Object binding is not configured");
+  return env.AUDIT.get(env.AUDIT.idFromName(workspace));
+}
+
+/**
+ * Fingerprint of a token hash, short enough to show
+ */
+export function tokenFingerprint(tokenHash: string): string {
+  return tokenHash.slice(0, FINGERPRINT_LENGTH);
+}
+
+/**
+ * Writes entries for one connection, tagged with the current MCP action
+ */
+export class AuditRecorder {
+  private env: Env;
+  private fingerprint: string;
+  private loadMember: () => Promise<ShortcutMember>;
+  private action: string;
+  // Writes this recorder couldn't record, for the caller to report
+  readonly failures: string[] = [];
+
+  constructor(
+    env: Env,
+    fingerprint: string,
+    loadMember: () => Promise<ShortcutMember>,
+    action = "unknown"
+  ) {
+    this.env = env;
+    this.fingerprint = fingerprint;
+    this.loadMember = loadMember;
+    this.action = action;
+  }
+
+  /**
+   * Recorder for calls made by the given action
+   */
+  forAction(action: string): AuditRecorder {
+    return new AuditRecorder(this.env, this.fingerprint, this.loadMember, action);
+  }
+
+  /**
+   * Record a write. The write has already happened, so a failure to record
+   * is kept in `failures` rather than failing the call.
+   */
+  async record(input: AuditInput): Promise<void> {
+    try {
+      const member = await this.loadMember();
+      const workspace = member.workspace2?.url_slug ?? "default";
+      await auditLog(this.env, workspace).append({
+        occurred_at: new Date().toISOString(),
+        token_fingerprint: this.fingerprint,
+        member_id: member.id,
+        member_name: member.profile.mention_name,
+        action: this.action,
+        method: input.method,
+        path: input.path,
+        story_ids: input.story_ids,
+        payload: input.payload ?? null,
+        changes: input.changes ?? [],
+        ok: input.error === undefined,
+        error: input.error ?? null,
+      });
+    } catch (error) {
+      this.failures.push(`${input.method} ${input.path}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Changed fields of a story, comparing snapshots around a write.
+ * Add/remove fields (owner_ids_add, labels_remove, ...) report their list.
+ * `before` is null for a created story and undefined when its snapshot
+ * couldn't be fetched; then every written field is recorded with no before.
+ */
+export function storyChanges(
+  before: ShortcutStory | null | undefined,
+  after: ShortcutStory,
+  payload: Record<string, unknown>
+): AuditChange[] {
+  const fields = new Set(
+    Object.keys(payload)
+      .filter((key) => key !== "story_ids")
+      .map((key) => key.replace(/_(add|remove)$/, ""))
+  );
+
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    if (before === undefined) {
+      changes.push({ story_id: after.id, field, after: storyField(after, field) });
+      continue;
+    }
+    const beforeValue = before ? storyField(before, field) : null;
+    const afterValue = storyField(after, field);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ story_id: after.id, field, before: beforeValue, after: afterValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * A story field as recorded in the audit log (labels by name)
+ */
+export function storyField(story: ShortcutStory, field: string): unknown {
+  if (field === "labels") return story.labels.map((l) => l.name).sort();
+  return (story as unknown as Record<string, unknown>)[field] ?? null;
+}
+
+export class AuditLog extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        occurred_at TEXT NOT NULL,
+        token_fingerprint TEXT NOT NULL,
+        member_id TEXT NOT NULL,
+        member_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        story_ids TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        ok INTEGER NOT NULL,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS audit_occurred ON audit (occurred_at);
+      CREATE INDEX IF NOT EXISTS audit_member ON audit (member_id, occurred_at);
+    `);
+
+    // Logs created before undo existed lack its column
+    const columns = this.sql.exec<{ name: string }>("PRAGMA table_info(audit)").toArray();
+    if (!columns.some((c) => c.name === "undone_at")) {
+      this.sql.exec("ALTER TABLE audit ADD COLUMN undone_at TEXT");
+    }
+  }
+
+  /**
+   * Append an entry and prune entries past retention
+   */
+  async append(entry: Omit<AuditEntry, "id" | "undone_at">): Promise<number> {
+    const row = this.sql
+      .exec<{ id: number }>(
+        `INSERT INTO audit
+           (occurred_at, token_fingerprint, member_id, member_name, action, method, path,
+            story_ids, payload, changes, ok, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`,
+        entry.occurred_at,
+        entry.token_fingerprint,
+        entry.member_id,
+        entry.member_name,
+        entry.action,
+        entry.method,
+        entry.path,
+        JSON.stringify(entry.story_ids),
+        JSON.stringify(entry.payload),
+        JSON.stringify(entry.changes),
+        entry.ok ? 1 : 0,
+        entry.error
+      )
+      .one();
+
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 86400000).toISOString();
+    this.sql.exec("DELETE FROM audit WHERE occurred_at < ?", cutoff);
+
+    return row.id;
+  }
+
+  /**
+   * Most recent entries first
+   */
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    const where: string[] = [];
+    const bindings: SqlStorageValue[] = [];
+
+    if (filter.id !== undefined) {
+      where.push("id = ?");
+      bindings.push(filter.id);
+    }
+    if (filter.storyId !== undefined) {
+      where.push("EXISTS (SELECT 1 FROM json_each(story_ids) WHERE value = ?)");
+      bindings.push(filter.storyId);
+    }
+    if (filter.memberId) {
+      where.push("member_id = ?");
+      bindings.push(filter.memberId);
+    }
+    if (filter.since) {
+      where.push("occurred_at >= ?");
+      bindings.push(filter.since);
+    }
+    if (filter.until) {
+      where.push("occurred_at < ?");
+      bindings.push(filter.until);
+    }
+    if (filter.tokenFingerprint) {
+      where.push("token_fingerprint = ?");
+      bindings.push(filter.tokenFingerprint);
+    }
+    if (filter.undoable) {
+      where.push(
+        `ok = 1 AND undone_at IS NULL AND action != 'undo' AND (
+           (method = 'PUT' AND (path = '/stories/bulk' OR path GLOB '/stories/[0-9]*')
+             AND path NOT LIKE '%/tasks/%' AND changes != '[]')
+           OR (method = 'POST' AND path = '/stories')
+         )`
+      );
+    }
+
+    const rows = this.sql
+      .exec<AuditRow>(
+        `SELECT * FROM audit
+         ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY id DESC
+         LIMIT ?`,
+        ...bindings,
+        filter.limit
+      )
+      .toArray();
+
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Mark an entry as reverted so it isn't undone twice
+   */
+  async markUndone(id: number): Promise<void> {
+    this.sql.exec("UPDATE audit SET undone_at = ? WHERE id = ?", new Date().toISOString(), id);
+  }
+}
+
+function toEntry(row: AuditRow): AuditEntry {
+  return {
+    ...row,
+    story_ids: JSON.parse(row.story_ids),
+    payload: JSON.parse(row.payload),
+    changes: JSON.parse(row.changes),
+    ok: row.ok === 1,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * StreamShortcut MCP Server - OAuth Mode
+ *
+ * When OAUTH_KV is bound, MCP clients can connect without a token header:
+ * they go through OAuth, and the user pastes their Shortcut API token once
+ * on the /authorize page. The token is checked against GET /member and kept
+ * in the grant's props, which the OAuth provider stores encrypted in KV.
+ */
+
+import type { AuthRequest, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { ShortcutClient } from "./client";
+import { ShortcutApiError } from "./errors";
+import { Env, OAuthProps, SERVER_NAME } from "./types";
+import { errorMessage } from "./utils";
+
+export const AUTHORIZE_PATH = "/authorize";
+export const TOKEN_PATH = "/token";
+export const REGISTER_PATH = "/register";
+
+/**
+ * Handle the authorization page; null for any other route
+ */
+export async function handleAuthorize(request: Request, env: Env): Promise<Response | null> {
+  const url = new URL(request.url);
+  if (url.pathname !== AUTHORIZE_PATH) return null;
+
+  const oauth = env.OAUTH_PROVIDER;
+  if (!oauth) return new Response("OAuth is not configured on this server", { status: 404 });
+
+  try {
+    if (request.method === "GET") {
+      const authRequest = await oauth.parseAuthRequest(request);
+      const consent = await oauth.beginConsent(authRequest);
+      const clientName = await describeClient(oauth, authRequest);
+      return htmlResponse(renderAuthorizePage(consent.handle, clientName), consent.headers);
+    }
+
+    if (request.method === "POST") {
+      return await completeAuthorize(request, oauth);
+    }
+  } catch (error) {
+    return htmlResponse(renderErrorPage(errorMessage(error)), undefined, 400);
+  }
+
+  return new Response("Method not allowed", { status: 405 });
+}
+
+async function completeAuthorize(request: Request, oauth: OAuthHelpers): Promise<Response> {
+  const form = await request.formData();
+  const handle = String(form.get("handle") ?? "");
+
+  if (form.get("decision") === "deny") {
+    const denied = await oauth.denyConsent(request, handle);
+    return new Response(null, { status: 302, headers: denied.headers });
+  }
+
+  // Who am I: refuse tokens Shortcut doesn't accept before anything is stored
+  const token = String(form.get("token") ?? "").trim();
+  let member;
+  try {
+    member = await new ShortcutClient(token).getCurrentMember();
+  } catch (error) {
+    const message =
+      error instanceof ShortcutApiError && error.status === 401
+        ? "Shortcut rejected that token. Check it and try again."
+        : `Could not verify the token: ${errorMessage(error)}`;
+    return htmlResponse(renderAuthorizePage(handle, undefined, message), undefined, 400);
+  }
+
+  const approved = await oauth.approveConsent(request, handle);
+  const props: OAuthProps = {
+    token,
+    userId: member.id,
+    clientId: approved.request.clientId,
+    mentionName: member.profile.mention_name,
+    workspace: member.workspace2?.url_slug,
+  };
+  const { redirectTo } = await oauth.completeAuthorization({
+    request: approved.request,
+    userId: member.id,
+    metadata: { label: `@${member.profile.mention_name}`, workspace: props.workspace },
+    scope: approved.request.scope,
+    props,
+  });
+
+  const headers = new Headers(approved.headers);
+  headers.set("Location", redirectTo);
+  return new Response(null, { status: 302, headers });
+}
+
+/**
+ * Revoke the caller's grants for their current client, or for every client
+ */
+export async function revokeGrants(
+  oauth: OAuthHelpers,
+  userId: string,
+  clientId?: string
+): Promise<number> {
+  let revoked = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await oauth.listUserGrants(userId, { cursor });
+    for (const grant of page.items) {
+      if (clientId && grant.clientId !== clientId) continue;
+      await oauth.revokeGrant(grant.id, userId);
+      revoked++;
+    }
+    cursor = page.cursor;
+  } while (cursor);
+  return revoked;
+}
+
+async function describeClient(oauth: OAuthHelpers, authRequest: AuthRequest): Promise<string> {
+  const client = await oauth.lookupClient(authRequest.clientId);
+  return client?.clientName || authRequest.clientId;
+}
+
+// Pages
+
+function renderAuthorizePage(handle: string, clientName?: string, error?: string): string {
+  const title = clientName
+    ? `Connect ${escapeHtml(clientName)} to Shortcut`
+    : "Connect to Shortcut";
+
+  return page(
+    title,
+    `${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+    <p>Paste a Shortcut API token. It is verified with Shortcut and stored encrypted on this
+    server, so it never has to go in your MCP client's config.
+    Create one at <a href="https://app.shortcut.com/settings/account/api-tokens">Settings → API Tokens</a>.</p>
+    <form method="post">
+      <input type="hidden" name="handle" value="${escapeHtml(handle)}">
+      <input type="password" name="token" placeholder="Shortcut API token" autocomplete="off" required>
+      <button type="submit" name="decision" value="approve">Connect</button>
+      <button type="submit" name="decision" value="deny" formnovalidate>Cancel</button>
+    </form>`
+  );
+}
+
+function renderErrorPage(message: string): string {
+  return page("Authorization failed", `<p class="error">${escapeHtml(message)}</p>`);
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title} - ${SERVER_NAME}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem; }
+    input[type=password] { width: 100%; padding: .5rem; margin: .5rem 0 1rem; box-sizing: border-box; }
+    .error { color: #d1242f; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  ${body}
+</body>
+</html>`;
+}
+
+function htmlResponse(html: string, headers?: Headers, status = 200): Response {
+  const merged = new Headers(headers);
+  merged.set("Content-Type", "text/html; charset=utf-8");
+  return new Response(html, { status, headers: merged });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,242 @@
+/**
+ * StreamShortcut MCP Server - Token Budget
+ *
+ * Keeps long descriptions and comment threads within a rough token budget.
+ * Output that fits is left alone. Otherwise code blocks and logs are
+ * collapsed first, then description sections past the budget are cut, and
+ * comments are kept newest first. Everything left out is named along with
+ * the call that fetches it.
+ */
+
+import { ShortcutComment } from "./types";
+
+export type Detail = "brief" | "normal" | "full";
+
+// Approximate output tokens per detail level
+const DETAIL_TOKENS: Record<Detail, number> = {
+  brief: 600,
+  normal: 2500,
+  full: Infinity,
+};
+
+// Roughly four characters per token for English text and code
+const CHARS_PER_TOKEN = 4;
+
+// Code blocks and log runs longer than this are collapsed to a preview
+const COLLAPSE_MIN_LINES = 8;
+const PREVIEW_LINES = 3;
+
+// Too little room left to be worth showing part of a section or comment
+const MIN_PARTIAL_TOKENS = 50;
+
+const LOG_LINE =
+  /^\s*(at\s|\d{4}-\d{2}-\d{2}[T ]\d|\[?\d{2}:\d{2}:\d{2}|\[?(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\b|Traceback|File "|\s+\^)/;
+
+export interface DescriptionSection {
+  // Headings are numbered from 1; text before the first heading is section 0
+  number: number;
+  heading?: string;
+  text: string;
+}
+
+/**
+ * Rough token count of some text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Token budget from the maxTokens and detail params (maxTokens wins)
+ */
+export function tokenBudget(maxTokens?: number, detail: Detail = "normal"): number {
+  return maxTokens ?? DETAIL_TOKENS[detail];
+}
+
+/**
+ * Split a Markdown description at its headings
+ */
+export function descriptionSections(description: string): DescriptionSection[] {
+  const sections: DescriptionSection[] = [];
+  let current: DescriptionSection = { number: 0, text: "" };
+  let headings = 0;
+  let inFence = false;
+
+  for (const line of description.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      if (current.text.trim() || current.heading) sections.push(current);
+      current = { number: ++headings, heading: heading[1], text: line };
+    } else {
+      current.text += current.text ? `\n${line}` : line;
+    }
+  }
+  if (current.text.trim() || current.heading) sections.push(current);
+
+  return sections;
+}
+
+/**
+ * The section asked for by number or heading (case-insensitive prefix)
+ */
+export function findSection(description: string, input: string): DescriptionSection {
+  const sections = descriptionSections(description);
+  const wanted = input.trim().toLowerCase().replace(/^#+\s*/, "");
+  const found = /^\d+$/.test(wanted)
+    ? sections.find((s) => s.number === Number(wanted))
+    : sections.find((s) => s.heading?.toLowerCase() === wanted) ??
+      sections.find((s) => s.heading?.toLowerCase().startsWith(wanted));
+
+  if (!found) {
+    const list = sections.map((s) => `${s.number}. ${s.heading ?? "(intro)"}`).join(", ");
+    throw new Error(`No section "${input}". Sections: ${list || "none (no headings)"}`);
+  }
+  return found;
+}
+
+/**
+ * Fit a description into the budget. sectionCall names the call that
+ * fetches one section, fullCall the one that fetches everything.
+ */
+export function fitDescription(
+  description: string,
+  budget: number,
+  sectionCall: (section: number) => string,
+  fullCall: string
+): string {
+  if (estimateTokens(description) <= budget) return description;
+
+  const original = descriptionSections(description);
+  const sections = original.map((s) => ({ ...s, text: collapseBlocks(s.text) }));
+  const wasCollapsed = sections.some((s, i) => s.text !== original[i].text);
+  const collapsed = sections.map((s) => s.text).join("\n");
+  if (wasCollapsed && estimateTokens(collapsed) <= budget) {
+    return `${collapsed}\n\n_(Long code blocks and logs collapsed. Full description: ${fullCall})_`;
+  }
+
+  const shown: string[] = [];
+  const omitted: DescriptionSection[] = [];
+  let left = budget;
+  for (const section of sections) {
+    const tokens = estimateTokens(section.text);
+    if (omitted.length === 0 && tokens <= left) {
+      shown.push(section.text);
+      left -= tokens;
+      continue;
+    }
+    // The first section that doesn't fit is shown in part when there's room
+    if (omitted.length === 0 && left >= MIN_PARTIAL_TOKENS) {
+      shown.push(`${truncateText(section.text, left)} …`);
+    }
+    omitted.push(section);
+  }
+
+  const list = omitted
+    .map((s) => `${s.number}. ${s.heading ?? "(intro)"} (~${estimateTokens(s.text)} tokens)`)
+    .join("; ");
+  const how = wasCollapsed ? ", long code blocks and logs collapsed" : "";
+  return [
+    ...shown,
+    "",
+    `_Description truncated to fit ~${budget} tokens${how}. Not shown in full: ${list}._`,
+    `_Fetch a section with ${sectionCall(omitted[0].number)} (number or heading), or everything with ${fullCall}._`,
+  ].join("\n");
+}
+
+/**
+ * Keep the newest comments that fit, each rendered by `render`.
+ * Returns them newest first, with a note naming what was left out.
+ */
+export function fitComments(
+  comments: ShortcutComment[],
+  budget: number,
+  render: (comment: ShortcutComment, text: string) => string,
+  commentCall: (id: number) => string,
+  listCall?: string
+): { shown: string[]; note?: string } {
+  const newestFirst = [...comments].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const shown: string[] = [];
+  let left = budget;
+  let truncated: ShortcutComment | undefined;
+
+  for (const comment of newestFirst) {
+    const full = render(comment, comment.text);
+    const tokens = estimateTokens(full);
+    if (tokens <= left) {
+      shown.push(full);
+      left -= tokens;
+      continue;
+    }
+    if (shown.length === 0 && left >= MIN_PARTIAL_TOKENS) {
+      shown.push(render(comment, `${truncateText(collapseBlocks(comment.text), left)} …`));
+      truncated = comment;
+    }
+    break;
+  }
+
+  const notes: string[] = [];
+  if (truncated) {
+    notes.push(`Comment ${truncated.id} was truncated; fetch it with ${commentCall(truncated.id)}.`);
+  }
+  const omitted = newestFirst.slice(shown.length);
+  if (omitted.length > 0) {
+    const ids = omitted.slice(0, 5).map((c) => c.id);
+    const more = omitted.length > ids.length ? ", …" : "";
+    notes.push(
+      `${omitted.length} older comment${omitted.length === 1 ? "" : "s"} not shown (IDs ${ids.join(", ")}${more}); fetch one with ${commentCall(ids[0])}${listCall ? ` or page through them with ${listCall}` : ""}.`
+    );
+  }
+
+  return { shown, note: notes.length > 0 ? `_${notes.join(" ")}_` : undefined };
+}
+
+/**
+ * Collapse long fenced code blocks and runs of log lines to a short preview
+ */
+export function collapseBlocks(text: string): string {
+  const lines = text.split("\n");
+  const out: string[] = [];
+
+  for (let i = 0; i < lines.length; ) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      const fence = lines[i].trim().slice(0, 3);
+      let end = i + 1;
+      while (end < lines.length && !lines[end].trim().startsWith(fence)) end++;
+      const body = lines.slice(i + 1, end);
+      if (body.length >= COLLAPSE_MIN_LINES) {
+        const hidden = body.length - PREVIEW_LINES;
+        out.push(lines[i], ...body.slice(0, PREVIEW_LINES), `… ${hidden} more lines`);
+        if (end < lines.length) out.push(lines[end]);
+      } else {
+        out.push(...lines.slice(i, end + 1));
+      }
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < lines.length && LOG_LINE.test(lines[end])) end++;
+    if (end - i >= COLLAPSE_MIN_LINES) {
+      out.push(...lines.slice(i, i + PREVIEW_LINES), `… ${end - i - PREVIEW_LINES} more log lines`);
+      i = end;
+    } else {
+      out.push(lines[i]);
+      i++;
+    }
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Cut text to about `tokens`, at a line or word boundary when one is near
+ */
+function truncateText(text: string, tokens: number): string {
+  const limit = tokens * CHARS_PER_TOKEN;
+  if (text.length <= limit) return text;
+
+  const cut = text.slice(0, limit);
+  const boundary = Math.max(cut.lastIndexOf("\n"), cut.lastIndexOf(" "));
+  return (boundary > limit * 0.6 ? cut.slice(0, boundary) : cut).trimEnd();
+}
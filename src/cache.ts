@@ -0,0 +1,122 @@
+/**
+ * StreamShortcut MCP Server - Metadata Cache
+ *
+ * Workflows, members, labels, epics, teams and iterations change rarely
+ * but are needed by almost every action. They are memoized in-isolate and,
+ * when a KV namespace is bound, shared across isolates. Entries are namespaced by a
+ * hash of the caller's token so workspaces never see each other's data.
+ */
+
+// TTLs in seconds (KV requires at least 60)
+export const CACHE_TTL = {
+  workflows: 600,
+  members: 600,
+  member: 600,
+  labels: 300,
+  epics: 300,
+  epicWorkflow: 600,
+  objectives: 300,
+  groups: 600,
+  iterations: 300,
+} as const;
+
+export type CacheKey = keyof typeof CACHE_TTL;
+
+const KV_PREFIX = "cache:v1";
+const MAX_MEMO_ENTRIES = 500;
+
+interface MemoEntry {
+  value: unknown;
+  expires: number;
+}
+
+// Shared by every request served by this isolate
+const memo = new Map<string, MemoEntry>();
+
+/**
+ * SHA-256 hex digest of a Shortcut token, safe to use as a storage key
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export class MetadataCache {
+  private namespace: string;
+  private kv?: KVNamespace;
+  private refresh: boolean;
+
+  constructor(namespace: string, kv?: KVNamespace, refresh = false) {
+    this.namespace = namespace;
+    this.kv = kv;
+    this.refresh = refresh;
+  }
+
+  /**
+   * Create a cache scoped to the given token
+   */
+  static async forToken(token: string, kv?: KVNamespace): Promise<MetadataCache> {
+    return new MetadataCache(await hashToken(token), kv);
+  }
+
+  /**
+   * Same cache, but reads are skipped and every load overwrites the entry
+   */
+  bypass(): MetadataCache {
+    return new MetadataCache(this.namespace, this.kv, true);
+  }
+
+  /**
+   * Return the cached value for key, loading and storing it on a miss
+   */
+  async get<T>(key: CacheKey, load: () => Promise<T>): Promise<T> {
+    const storageKey = `${KV_PREFIX}:${this.namespace}:${key}`;
+    const ttl = CACHE_TTL[key];
+
+    if (!this.refresh) {
+      const hit = memo.get(storageKey);
+      if (hit && hit.expires > Date.now()) return hit.value as T;
+
+      if (this.kv) {
+        const stored = await this.kv.get<T>(storageKey, "json");
+        if (stored !== null) {
+          remember(storageKey, stored, ttl);
+          return stored;
+        }
+      }
+    }
+
+    const value = await load();
+    remember(storageKey, value, ttl);
+    if (this.kv) {
+      await this.kv.put(storageKey, JSON.stringify(value), { expirationTtl: ttl });
+    }
+    return value;
+  }
+
+  /**
+   * Drop an entry after a write that changes it
+   */
+  async invalidate(key: CacheKey): Promise<void> {
+    const storageKey = `${KV_PREFIX}:${this.namespace}:${key}`;
+    memo.delete(storageKey);
+    if (this.kv) await this.kv.delete(storageKey);
+  }
+}
+
+function remember(storageKey: string, value: unknown, ttl: number): void {
+  const now = Date.now();
+
+  if (memo.size >= MAX_MEMO_ENTRIES) {
+    for (const [k, entry] of memo) {
+      if (entry.expires <= now) memo.delete(k);
+    }
+    // Still full: evict oldest insertion
+    if (memo.size >= MAX_MEMO_ENTRIES) {
+      const oldest = memo.keys().next().value;
+      if (oldest !== undefined) memo.delete(oldest);
+    }
+  }
+
+  memo.set(storageKey, { value, expires: now + ttl * 1000 });
+}
@@ -2,97 +2,236 @@
  * StreamShortcut MCP Server - Shortcut API Client
  */
 
+import { AuditRecorder, storyChanges } from "./audit";
+import { MetadataCache, CacheKey } from "./cache";
+import { ShortcutApiError } from "./errors";
+import {
+  resolveStateMatch,
+  resolveMemberMatch,
+  resolveWorkflowMatch,
+  resolveGroupMatch,
+  resolveIterationMatch,
+  resolveEpicStateMatch,
+  resolveObjectiveMatch,
+} from "./resolver";
 import {
   ShortcutMember,
   ShortcutWorkflow,
   ShortcutStory,
   ShortcutEpic,
+  ShortcutLabel,
+  ShortcutGroup,
+  ShortcutIteration,
   ShortcutSearchResponse,
+  ShortcutSearchPage,
+  ShortcutStoryLink,
+  ShortcutLinkVerb,
+  ShortcutTask,
+  ShortcutEpicWorkflow,
+  ShortcutEpicState,
+  ShortcutObjective,
+  ShortcutComment,
+  ShortcutFile,
 } from "./types";
+import { mapSettled, errorMessage } from "./utils";
 
 const SHORTCUT_API = "https://api.app.shortcut.com/api/v3";
 
+// Retry policy
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+const MAX_RETRY_AFTER_SECONDS = 30;
+const REQUEST_TIMEOUT_MS = 15000;
+const UPLOAD_TIMEOUT_MS = 60000;
+// Search pagination (Shortcut caps page_size at 25)
+export const SEARCH_PAGE_SIZE = 25;
+export const MAX_SEARCH_RESULTS = 1000;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+// Story snapshots fetched in parallel before an audited bulk update
+const SNAPSHOT_CONCURRENCY = 5;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export interface RequestOptions {
+  // Retry even if the method is not idempotent
+  retry?: boolean;
+  maxRetries?: number;
+  timeoutMs?: number;
+  // false skips the audit log (reads sent as POST, or writes recorded by their caller)
+  audit?: boolean;
+}
+
 export class ShortcutClient {
   private token: string;
+  private cache?: MetadataCache;
+  private audit?: AuditRecorder;
 
-  constructor(token: string) {
+  constructor(token: string, cache?: MetadataCache, audit?: AuditRecorder) {
     this.token = token;
+    this.cache = cache;
+    this.audit = audit;
+  }
+
+  /**
+   * Client that ignores cached metadata and refetches it
+   */
+  bypassCache(): ShortcutClient {
+    return new ShortcutClient(this.token, this.cache?.bypass(), this.audit);
+  }
+
+  /**
+   * Client that records its writes to the given audit recorder
+   */
+  withAudit(audit: AuditRecorder | undefined): ShortcutClient {
+    return new ShortcutClient(this.token, this.cache, audit);
+  }
+
+  private cached<T>(key: CacheKey, load: () => Promise<T>): Promise<T> {
+    return this.cache ? this.cache.get(key, load) : load();
+  }
+
+  /**
+   * Drop cached metadata after a write that changed it
+   */
+  async invalidate(key: CacheKey): Promise<void> {
+    await this.cache?.invalidate(key);
   }
 
   /**
-   * Make an API request to Shortcut
+   * Make an API request to Shortcut, recording writes in the audit log
    */
   async request<T>(
     method: string,
     path: string,
-    body?: Record<string, unknown>
+    body?: Record<string, unknown>,
+    options: RequestOptions = {}
   ): Promise<T> {
-    const response = await fetch(`${SHORTCUT_API}${path}`, {
-      method,
-      headers: {
-        "Content-Type": "application/json",
-        "Shortcut-Token": this.token,
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
-
-    if (response.status === 429) {
-      throw new Error("Rate limit exceeded. Please try again later.");
+    if (!this.audit || options.audit === false || READ_METHODS.has(method)) {
+      return this.send<T>(method, path, body, options);
     }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`API error (${response.status}): ${error}`);
+    const entry = { method, path, story_ids: storyIdsOf(path, body), payload: body };
+    try {
+      const result = await this.send<T>(method, path, body, options);
+      await this.audit.record(entry);
+      return result;
+    } catch (error) {
+      await this.audit.record({ ...entry, error: errorMessage(error) });
+      throw error;
     }
+  }
+
+  /**
+   * Send a request, retrying rate limits, 5xx responses, timeouts and
+   * network failures with exponential backoff. Non-idempotent methods are
+   * only retried when the caller opts in with `retry: true`.
+   */
+  private async send<T>(
+    method: string,
+    path: string,
+    body: Record<string, unknown> | FormData | undefined,
+    options: RequestOptions
+  ): Promise<T> {
+    const retryable = options.retry ?? IDEMPOTENT_METHODS.has(method);
+    const maxRetries = retryable ? options.maxRetries ?? MAX_RETRIES : 0;
+    const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetchOnce(method, path, body, timeoutMs);
+      } catch (error) {
+        if (attempt < maxRetries) {
+          await sleep(backoffDelay(attempt));
+          continue;
+        }
+        if (error instanceof Error && error.name === "AbortError") {
+          throw new Error(`Request timed out after ${timeoutMs}ms: ${method} ${path}`);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Network error on ${method} ${path}: ${message}`);
+      }
+
+      if (response.ok) {
+        const text = await response.text();
+        if (!text) return null as T;
+
+        try {
+          return JSON.parse(text) as T;
+        } catch {
+          return text as T;
+        }
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      const shouldRetry =
+        attempt < maxRetries &&
+        RETRYABLE_STATUSES.has(response.status) &&
+        (retryAfter === undefined || retryAfter <= MAX_RETRY_AFTER_SECONDS);
+
+      if (shouldRetry) {
+        // Drain the body so the connection can be reused
+        await response.body?.cancel();
+        const delay = retryAfter !== undefined ? retryAfter * 1000 : backoffDelay(attempt);
+        await sleep(delay);
+        continue;
+      }
 
-    const text = await response.text();
-    if (!text) return null as T;
+      throw new ShortcutApiError(
+        response.status,
+        method,
+        path,
+        await readErrorBody(response),
+        retryAfter
+      );
+    }
+  }
 
+  private async fetchOnce(
+    method: string,
+    path: string,
+    body: Record<string, unknown> | FormData | undefined,
+    timeoutMs: number
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    // fetch sets the multipart Content-Type (with its boundary) itself
+    const multipart = body instanceof FormData;
     try {
-      return JSON.parse(text) as T;
-    } catch {
-      return text as T;
+      return await fetch(`${SHORTCUT_API}${path}`, {
+        method,
+        headers: multipart
+          ? { "Shortcut-Token": this.token }
+          : { "Content-Type": "application/json", "Shortcut-Token": this.token },
+        body: multipart ? body : body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timer);
     }
   }
 
   // Workflow methods
   async getWorkflows(): Promise<ShortcutWorkflow[]> {
-    return this.request<ShortcutWorkflow[]>("GET", "/workflows");
+    return this.cached("workflows", () =>
+      this.request<ShortcutWorkflow[]>("GET", "/workflows")
+    );
   }
 
-  async resolveState(stateName: string): Promise<number | null> {
-    const workflows = await this.getWorkflows();
-    const lower = stateName.toLowerCase();
-
-    for (const wf of workflows) {
-      // Exact match
-      let match = wf.states.find((s) => s.name.toLowerCase() === lower);
-      if (match) return match.id;
-
-      // Partial match
-      match = wf.states.find((s) => s.name.toLowerCase().includes(lower));
-      if (match) return match.id;
-    }
-
-    // Alias matching
-    const aliases: Record<string, string[]> = {
-      done: ["done", "complete", "completed", "finished", "deployed"],
-      "in progress": ["in progress", "started", "doing", "wip", "in prog"],
-      ready: ["ready", "todo", "to do", "backlog", "open"],
-    };
-
-    for (const [canonical, alts] of Object.entries(aliases)) {
-      if (alts.some((a) => lower.includes(a) || a.includes(lower))) {
-        for (const wf of workflows) {
-          const match = wf.states.find((s) =>
-            s.name.toLowerCase().includes(canonical)
-          );
-          if (match) return match.id;
-        }
-      }
-    }
+  async resolveWorkflow(input: string): Promise<ShortcutWorkflow | null> {
+    return resolveWorkflowMatch(await this.getWorkflows(), input);
+  }
 
-    return null;
+  /**
+   * Resolve a state name or ID, scoped to one workflow when given
+   */
+  async resolveState(stateName: string, workflowId?: number): Promise<number | null> {
+    const workflows = await this.getWorkflows();
+    const state = resolveStateMatch(workflows, stateName, workflowId);
+    return state ? state.id : null;
   }
 
   async getStateName(stateId: number): Promise<string> {
@@ -104,20 +243,29 @@ export class ShortcutClient {
     return String(stateId);
   }
 
-  async getAllStateNames(): Promise<string[]> {
+  async getAllStateNames(workflowId?: number): Promise<string[]> {
     const workflows = await this.getWorkflows();
-    return workflows.flatMap((wf) => wf.states.map((s) => s.name));
+    return workflows
+      .filter((wf) => !workflowId || wf.id === workflowId)
+      .flatMap((wf) => wf.states.map((s) => s.name));
   }
 
   // Member methods
   async getMembers(): Promise<ShortcutMember[]> {
-    return this.request<ShortcutMember[]>("GET", "/members");
+    return this.cached("members", () =>
+      this.request<ShortcutMember[]>("GET", "/members")
+    );
   }
 
   async getCurrentMember(): Promise<ShortcutMember> {
-    return this.request<ShortcutMember>("GET", "/member");
+    return this.cached("member", () =>
+      this.request<ShortcutMember>("GET", "/member")
+    );
   }
 
+  /**
+   * Resolve "me", a member ID, email, mention name or display name
+   */
   async resolveMember(input: string): Promise<string | null> {
     if (input === "me") {
       const member = await this.getCurrentMember();
@@ -125,15 +273,41 @@ export class ShortcutClient {
     }
 
     const members = await this.getMembers();
-    const lower = input.toLowerCase();
+    const match = resolveMemberMatch(members, input);
+    return match ? match.id : null;
+  }
 
-    const match = members.find((m) => {
-      const name = m.profile.name.toLowerCase();
-      const mention = m.profile.mention_name.toLowerCase();
-      return name.includes(lower) || mention.includes(lower);
-    });
+  // Group (team) methods
+  async getGroups(): Promise<ShortcutGroup[]> {
+    return this.cached("groups", () =>
+      this.request<ShortcutGroup[]>("GET", "/groups")
+    );
+  }
 
-    return match ? match.id : null;
+  async resolveGroup(input: string): Promise<ShortcutGroup | null> {
+    return resolveGroupMatch(await this.getGroups(), input);
+  }
+
+  // Iteration methods
+  async getIterations(): Promise<ShortcutIteration[]> {
+    return this.cached("iterations", () =>
+      this.request<ShortcutIteration[]>("GET", "/iterations")
+    );
+  }
+
+  async getIterationStories(id: number): Promise<ShortcutStory[]> {
+    return this.request<ShortcutStory[]>("GET", `/iterations/${id}/stories`);
+  }
+
+  async resolveIteration(input: string): Promise<ShortcutIteration | null> {
+    return resolveIterationMatch(await this.getIterations(), input);
+  }
+
+  // Label methods
+  async getLabels(): Promise<ShortcutLabel[]> {
+    return this.cached("labels", () =>
+      this.request<ShortcutLabel[]>("GET", "/labels?slim=true")
+    );
   }
 
   // Story methods
@@ -142,14 +316,74 @@ export class ShortcutClient {
   }
 
   async createStory(data: Record<string, unknown>): Promise<ShortcutStory> {
-    return this.request<ShortcutStory>("POST", "/stories", data);
+    const story = await this.request<ShortcutStory>("POST", "/stories", data, { audit: false });
+    await this.audit?.record({
+      method: "POST",
+      path: "/stories",
+      story_ids: [story.id],
+      payload: data,
+      changes: storyChanges(null, story, data),
+    });
+    return story;
   }
 
+  /**
+   * Update a story. `before` is the story as the caller last fetched it;
+   * when auditing, it is fetched if not given so the change can be recorded.
+   */
   async updateStory(
     id: number,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    before?: ShortcutStory
   ): Promise<ShortcutStory> {
-    return this.request<ShortcutStory>("PUT", `/stories/${id}`, data);
+    if (!this.audit) return this.request<ShortcutStory>("PUT", `/stories/${id}`, data);
+
+    const snapshot = before ?? (await this.getStory(id));
+    const entry = { method: "PUT", path: `/stories/${id}`, story_ids: [id], payload: data };
+    try {
+      const story = await this.request<ShortcutStory>("PUT", `/stories/${id}`, data, {
+        audit: false,
+      });
+      await this.audit.record({ ...entry, changes: storyChanges(snapshot, story, data) });
+      return story;
+    } catch (error) {
+      await this.audit.record({ ...entry, error: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the same change to many stories in one call
+   */
+  async bulkUpdateStories(
+    ids: number[],
+    data: Record<string, unknown>,
+    before: Map<number, ShortcutStory> = new Map()
+  ): Promise<ShortcutStory[]> {
+    const payload = { ...data, story_ids: ids };
+    if (!this.audit) return this.request<ShortcutStory[]>("PUT", "/stories/bulk", payload);
+
+    const missing = ids.filter((id) => !before.has(id));
+    const fetched = await mapSettled(missing, SNAPSHOT_CONCURRENCY, (id) => this.getStory(id));
+    const snapshots = new Map(before);
+    fetched.forEach((r, i) => {
+      if (r.status === "fulfilled") snapshots.set(missing[i], r.value);
+    });
+
+    const entry = { method: "PUT", path: "/stories/bulk", story_ids: ids, payload };
+    try {
+      const stories = await this.request<ShortcutStory[]>("PUT", "/stories/bulk", payload, {
+        audit: false,
+      });
+      const changes = stories.flatMap((story) =>
+        storyChanges(snapshots.get(story.id), story, data)
+      );
+      await this.audit.record({ ...entry, changes });
+      return stories;
+    } catch (error) {
+      await this.audit.record({ ...entry, error: errorMessage(error) });
+      throw error;
+    }
   }
 
   async searchStories(
@@ -158,7 +392,9 @@ export class ShortcutClient {
     const response = await this.request<ShortcutSearchResponse | ShortcutStory[]>(
       "POST",
       "/stories/search",
-      params
+      params,
+      // Search is read-only despite being a POST
+      { retry: true, audit: false }
     );
 
     // Normalize response format
@@ -169,18 +405,288 @@ export class ShortcutClient {
     return [];
   }
 
-  async addComment(storyId: number, text: string): Promise<void> {
-    await this.request("POST", `/stories/${storyId}/comments`, { text });
+  /**
+   * Fetch one page of results from the search API
+   */
+  async searchStoriesPage(
+    query: string,
+    options: { pageSize?: number; next?: string } = {}
+  ): Promise<ShortcutSearchPage> {
+    const params = new URLSearchParams({
+      query,
+      page_size: String(Math.min(options.pageSize ?? SEARCH_PAGE_SIZE, SEARCH_PAGE_SIZE)),
+      detail: "slim",
+    });
+    if (options.next) params.set("next", options.next);
+
+    const response = await this.request<ShortcutSearchResponse>(
+      "GET",
+      `/search/stories?${params}`
+    );
+
+    return {
+      stories: response?.data ?? [],
+      total: response?.total ?? 0,
+      next: extractNextToken(response?.next),
+    };
+  }
+
+  /**
+   * Walk search pages until `limit` stories are collected or results run out.
+   * Page sizes shrink to fit the limit so the returned cursor never skips
+   * stories.
+   */
+  async searchStoriesPaged(
+    query: string,
+    limit: number,
+    cursor?: string
+  ): Promise<ShortcutSearchPage> {
+    const cap = Math.min(limit, MAX_SEARCH_RESULTS);
+    const stories: ShortcutStory[] = [];
+    let next: string | null = cursor ?? null;
+    let total = 0;
+
+    do {
+      const page = await this.searchStoriesPage(query, {
+        pageSize: cap - stories.length,
+        next: next ?? undefined,
+      });
+      stories.push(...page.stories);
+      total = page.total;
+      next = page.next;
+      if (page.stories.length === 0) break;
+    } while (next && stories.length < cap);
+
+    return { stories, total, next };
+  }
+
+  // Comment methods
+  async getComments(storyId: number): Promise<ShortcutComment[]> {
+    return this.request<ShortcutComment[]>("GET", `/stories/${storyId}/comments`);
+  }
+
+  async getComment(storyId: number, commentId: number): Promise<ShortcutComment> {
+    return this.request<ShortcutComment>("GET", `/stories/${storyId}/comments/${commentId}`);
+  }
+
+  /**
+   * Add a comment, or a reply in the thread of parentId
+   */
+  async addComment(storyId: number, text: string, parentId?: number): Promise<ShortcutComment> {
+    return this.request<ShortcutComment>("POST", `/stories/${storyId}/comments`, {
+      text,
+      ...(parentId ? { parent_id: parentId } : {}),
+    });
+  }
+
+  async updateComment(storyId: number, commentId: number, text: string): Promise<ShortcutComment> {
+    return this.request<ShortcutComment>("PUT", `/stories/${storyId}/comments/${commentId}`, {
+      text,
+    });
+  }
+
+  async deleteComment(storyId: number, commentId: number): Promise<void> {
+    await this.request("DELETE", `/stories/${storyId}/comments/${commentId}`);
+  }
+
+  async addReaction(storyId: number, commentId: number, emoji: string): Promise<void> {
+    await this.request("POST", `/stories/${storyId}/comments/${commentId}/reactions`, { emoji });
+  }
+
+  async removeReaction(storyId: number, commentId: number, emoji: string): Promise<void> {
+    await this.request("DELETE", `/stories/${storyId}/comments/${commentId}/reactions`, { emoji });
+  }
+
+  // File methods
+  /**
+   * Upload a file and attach it to a story. The audit log records the
+   * file's name, size and type, never its content.
+   */
+  async uploadFile(storyId: number, filename: string, content: Blob): Promise<ShortcutFile> {
+    const form = new FormData();
+    form.append("story_id", String(storyId));
+    form.append("file0", content, filename);
+    const upload = () =>
+      this.send<ShortcutFile[]>("POST", "/files", form, { timeoutMs: UPLOAD_TIMEOUT_MS });
+    if (!this.audit) return (await upload())[0];
+
+    const entry = {
+      method: "POST",
+      path: "/files",
+      story_ids: [storyId],
+      payload: { story_id: storyId, file: { name: filename, size: content.size, type: content.type } },
+    };
+    try {
+      const [file] = await upload();
+      await this.audit.record(entry);
+      return file;
+    } catch (error) {
+      await this.audit.record({ ...entry, error: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a file, recording it in the audit log against the story it was on
+   */
+  async deleteFile(id: number, storyId: number): Promise<void> {
+    if (!this.audit) return this.request("DELETE", `/files/${id}`);
+
+    const entry = { method: "DELETE", path: `/files/${id}`, story_ids: [storyId], payload: undefined };
+    try {
+      await this.request("DELETE", `/files/${id}`, undefined, { audit: false });
+      await this.audit.record(entry);
+    } catch (error) {
+      await this.audit.record({ ...entry, error: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  // Task methods
+  async createTask(storyId: number, data: Record<string, unknown>): Promise<ShortcutTask> {
+    return this.request<ShortcutTask>("POST", `/stories/${storyId}/tasks`, data);
+  }
+
+  async updateTask(
+    storyId: number,
+    taskId: number,
+    data: Record<string, unknown>
+  ): Promise<ShortcutTask> {
+    return this.request<ShortcutTask>("PUT", `/stories/${storyId}/tasks/${taskId}`, data);
+  }
+
+  async deleteTask(storyId: number, taskId: number): Promise<void> {
+    await this.request("DELETE", `/stories/${storyId}/tasks/${taskId}`);
+  }
+
+  // Story link methods
+  async createStoryLink(
+    subjectId: number,
+    objectId: number,
+    verb: ShortcutLinkVerb
+  ): Promise<ShortcutStoryLink> {
+    return this.request<ShortcutStoryLink>("POST", "/story-links", {
+      subject_id: subjectId,
+      object_id: objectId,
+      verb,
+    });
+  }
+
+  async deleteStoryLink(id: number): Promise<void> {
+    await this.request("DELETE", `/story-links/${id}`);
   }
 
   // Epic methods
+  async getEpics(): Promise<ShortcutEpic[]> {
+    return this.cached("epics", () =>
+      this.request<ShortcutEpic[]>("GET", "/epics")
+    );
+  }
+
   async getEpic(id: number): Promise<ShortcutEpic> {
     return this.request<ShortcutEpic>("GET", `/epics/${id}`);
   }
+
+  async createEpic(data: Record<string, unknown>): Promise<ShortcutEpic> {
+    const epic = await this.request<ShortcutEpic>("POST", "/epics", data);
+    await this.invalidate("epics");
+    return epic;
+  }
+
+  async updateEpic(id: number, data: Record<string, unknown>): Promise<ShortcutEpic> {
+    const epic = await this.request<ShortcutEpic>("PUT", `/epics/${id}`, data);
+    await this.invalidate("epics");
+    return epic;
+  }
+
+  async getEpicWorkflow(): Promise<ShortcutEpicWorkflow> {
+    return this.cached("epicWorkflow", () =>
+      this.request<ShortcutEpicWorkflow>("GET", "/epic-workflow")
+    );
+  }
+
+  async resolveEpicState(input: string): Promise<ShortcutEpicState | null> {
+    const workflow = await this.getEpicWorkflow();
+    return resolveEpicStateMatch(workflow.epic_states, input);
+  }
+
+  // Objective methods
+  async getObjectives(): Promise<ShortcutObjective[]> {
+    return this.cached("objectives", () =>
+      this.request<ShortcutObjective[]>("GET", "/objectives")
+    );
+  }
+
+  async getObjectiveEpics(id: number): Promise<ShortcutEpic[]> {
+    return this.request<ShortcutEpic[]>("GET", `/objectives/${id}/epics`);
+  }
+
+  async resolveObjective(input: string): Promise<ShortcutObjective | null> {
+    return resolveObjectiveMatch(await this.getObjectives(), input);
+  }
+}
+
+/**
+ * Shortcut returns `next` as a full path; keep only its token
+ */
+function extractNextToken(next: string | null | undefined): string | null {
+  if (!next) return null;
+  if (!next.includes("?")) return next;
+  return new URL(next, SHORTCUT_API).searchParams.get("next");
+}
+
+/**
+ * Full-jitter exponential backoff
+ */
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.floor(Math.random() * cap);
+}
+
+/**
+ * Retry-After is either delta-seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+async function readErrorBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Story IDs a write touches, from its path or a bulk payload
+ */
+function storyIdsOf(path: string, body?: Record<string, unknown>): number[] {
+  if (Array.isArray(body?.story_ids)) return body.story_ids as number[];
+  // Story links
+  if (typeof body?.subject_id === "number" && typeof body?.object_id === "number") {
+    return [body.subject_id, body.object_id];
+  }
+  const match = path.match(/^\/stories\/(\d+)/);
+  return match ? [parseInt(match[1], 10)] : [];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Resolve ID from various formats (704, sc-704, URL)
+ * Resolve ID from various formats (704, sc-704, URL, branch name, PR title)
  */
 export function resolveId(input: string): number {
   // Story URL
@@ -191,9 +697,15 @@ export function resolveId(input: string): number {
   const epicUrlMatch = input.match(/shortcut\.com\/[^/]+\/epic\/(\d+)/i);
   if (epicUrlMatch) return parseInt(epicUrlMatch[1], 10);
 
-  // Numeric ID (possibly with sc- prefix)
-  const numMatch = input.match(/(\d+)/);
+  // sc-704 anywhere, e.g. "feature/sc-704-fix-login" or "[sc-704] Fix login"
+  const storyRefMatch = input.match(/(?:^|[^a-z0-9])sc-?(\d+)/i);
+  if (storyRefMatch) return parseInt(storyRefMatch[1], 10);
+
+  // Bare numeric ID. Other digits (e.g. "release-2/fix-login") aren't story references.
+  const numMatch = input.match(/^\s*#?(\d+)\s*$/);
   if (numMatch) return parseInt(numMatch[1], 10);
 
-  throw new Error(`Invalid ID: ${input}`);
+  throw new Error(
+    `No story reference found in "${input}": use 704, sc-704, a story URL, or a branch or title containing sc-704`
+  );
 }
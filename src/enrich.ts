@@ -0,0 +1,55 @@
+/**
+ * StreamShortcut MCP Server - Name Enrichment
+ *
+ * Stories carry IDs for their state, owners, epic, iteration and team.
+ * Before formatting, the names for every ID on a set of stories are looked
+ * up in one pass from the cached metadata lists, so output shows
+ * "In Progress" and "@alice" instead of numbers and UUIDs.
+ */
+
+import { ShortcutClient } from "./client";
+import { ShortcutComment, ShortcutStory, StoryNames } from "./types";
+
+/**
+ * Names for the IDs on the given stories and their comments. Only the lists
+ * the stories need are fetched; a list that fails to load leaves its IDs as
+ * they are rather than failing the call.
+ */
+export async function resolveStoryNames(
+  client: ShortcutClient,
+  stories: ShortcutStory[],
+  comments: ShortcutComment[] = []
+): Promise<StoryNames> {
+  const needs = {
+    members:
+      comments.length > 0 ||
+      stories.some((s) => s.owner_ids?.length || s.requested_by_id || s.follower_ids?.length),
+    epics: stories.some((s) => s.epic_id),
+    iterations: stories.some((s) => s.iteration_id),
+    teams: stories.some((s) => s.group_id),
+  };
+
+  const [workflows, members, epics, iterations, groups] = await Promise.all([
+    stories.length > 0 ? optional(client.getWorkflows()) : [],
+    needs.members ? optional(client.getMembers()) : [],
+    needs.epics ? optional(client.getEpics()) : [],
+    needs.iterations ? optional(client.getIterations()) : [],
+    needs.teams ? optional(client.getGroups()) : [],
+  ]);
+
+  return {
+    members: new Map(members.map((m) => [m.id, m.profile.mention_name])),
+    states: new Map(workflows.flatMap((wf) => wf.states.map((st) => [st.id, st.name]))),
+    epics: new Map(epics.map((e) => [e.id, e.name])),
+    iterations: new Map(iterations.map((i) => [i.id, i.name])),
+    teams: new Map(groups.map((g) => [g.id, g.name])),
+  };
+}
+
+async function optional<T>(load: Promise<T[]>): Promise<T[]> {
+  try {
+    return await load;
+  } catch {
+    return [];
+  }
+}
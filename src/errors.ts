@@ -0,0 +1,122 @@
+/**
+ * StreamShortcut MCP Server - Error Types
+ */
+
+/**
+ * Non-2xx response from the Shortcut REST API
+ */
+export class ShortcutApiError extends Error {
+  readonly status: number;
+  readonly method: string;
+  readonly path: string;
+  // Parsed JSON error body when Shortcut sent one, raw text otherwise
+  readonly body: unknown;
+  // Seconds, from the Retry-After header
+  readonly retryAfter?: number;
+
+  constructor(
+    status: number,
+    method: string,
+    path: string,
+    body: unknown,
+    retryAfter?: number
+  ) {
+    super(`Shortcut API error (${status}) on ${method} ${path}: ${describeBody(body)}`);
+    this.name = "ShortcutApiError";
+    this.status = status;
+    this.method = method;
+    this.path = path;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * Human-readable message from the error body, if any
+   */
+  get detail(): string {
+    return describeBody(this.body);
+  }
+
+  /**
+   * Per-field validation errors Shortcut returns on 400/422
+   */
+  get fieldErrors(): Record<string, string> {
+    if (!this.body || typeof this.body !== "object") return {};
+    const errors = (this.body as { errors?: unknown }).errors;
+    if (!errors || typeof errors !== "object") return {};
+
+    return Object.fromEntries(
+      Object.entries(errors as Record<string, unknown>).map(([field, value]) => [
+        field,
+        typeof value === "string" ? value : JSON.stringify(value),
+      ])
+    );
+  }
+}
+
+function describeBody(body: unknown): string {
+  if (!body) return "no details";
+  if (typeof body === "string") return body;
+  if (typeof body === "object") {
+    const { message, error } = body as { message?: unknown; error?: unknown };
+    if (typeof message === "string") return message;
+    if (typeof error === "string") return error;
+  }
+  return JSON.stringify(body);
+}
+
+/**
+ * A name (member, state, label, ...) that matched nothing
+ */
+export class ResolutionError extends Error {
+  readonly kind: string;
+  readonly input: string;
+  readonly suggestions: string[];
+
+  constructor(kind: string, input: string, suggestions: string[]) {
+    const hint =
+      suggestions.length > 0
+        ? `Did you mean: ${suggestions.join(", ")}?`
+        : "No close matches.";
+    super(`Unknown ${kind} "${input}". ${hint}`);
+    this.name = "ResolutionError";
+    this.kind = kind;
+    this.input = input;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * A name that matched several things equally well
+ */
+export class AmbiguityError extends Error {
+  readonly kind: string;
+  readonly input: string;
+  readonly candidates: string[];
+
+  constructor(kind: string, input: string, candidates: string[]) {
+    super(
+      `Ambiguous ${kind} "${input}" matches: ${candidates.join(", ")}. ` +
+        "Use the exact name, email or ID."
+    );
+    this.name = "AmbiguityError";
+    this.kind = kind;
+    this.input = input;
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * A call the connection's access policy does not allow
+ */
+export class PolicyError extends Error {
+  readonly policy: string;
+  readonly rule: string;
+
+  constructor(policy: string, rule: string, reason: string) {
+    super(`Denied by access policy "${policy}" (rule: ${rule}): ${reason}`);
+    this.name = "PolicyError";
+    this.policy = policy;
+    this.rule = rule;
+  }
+}
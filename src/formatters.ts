@@ -2,64 +2,625 @@
  * StreamShortcut MCP Server - Output Formatters
  */
 
-import { ShortcutStory, ShortcutEpic } from "./types";
+import { ShortcutApiError } from "./errors";
+import {
+  ShortcutStory,
+  ShortcutEpic,
+  ShortcutSearchPage,
+  BatchOutcome,
+  DryRunPlan,
+  LinkedStory,
+  ShortcutTask,
+  ShortcutIteration,
+  ShortcutObjective,
+  ActivityEvent,
+  ShortcutPullRequest,
+  ShortcutComment,
+  AuditEntry,
+  StoryNames,
+} from "./types";
+import { IterationSummary } from "./iterations";
+import { fitComments } from "./budget";
+
+// An epic is at risk when its deadline is this close and less than this share is done
+const AT_RISK_DAYS = 14;
+const AT_RISK_MIN_DONE = 0.75;
+
+// Order link groups are listed in
+const LINK_ORDER = ["blocked by", "blocks", "duplicates", "duplicated by", "relates to"];
 
 /**
  * Format a single story for detailed display
  */
-export function formatStory(story: ShortcutStory, stateName?: string): string {
+export function formatStory(
+  story: ShortcutStory,
+  names?: StoryNames,
+  links: LinkedStory[] = [],
+  description = story.description
+): string {
   const labels = story.labels.map((l) => l.name).join(", ");
+  const state = names?.states.get(story.workflow_state_id) ?? story.workflow_state_id;
 
   const lines = [
     `**sc-${story.id}**: ${story.name || "Untitled"}`,
-    `Type: ${story.story_type || "?"} | State: ${stateName || story.workflow_state_id || "?"} | Est: ${story.estimate ?? "?"}pts`,
-    `Epic: ${story.epic_id || "none"} | Iteration: ${story.iteration_id || "none"}`,
+    `Type: ${story.story_type || "?"} | State: ${state || "?"} | Est: ${story.estimate ?? "?"}pts`,
+    `Epic: ${named(names?.epics, story.epic_id)} | Iteration: ${named(names?.iterations, story.iteration_id)}`,
   ];
 
+  const people: string[] = [];
+  if (story.owner_ids?.length) {
+    people.push(`Owners: ${story.owner_ids.map((id) => mention(names, id)).join(", ")}`);
+  }
+  if (story.requested_by_id) people.push(`Requester: ${mention(names, story.requested_by_id)}`);
+  if (story.group_id) people.push(`Team: ${named(names?.teams, story.group_id)}`);
+  if (people.length > 0) lines.push(people.join(" | "));
+
   if (labels) lines.push(`Labels: ${labels}`);
   if (story.app_url) lines.push(`Link: ${story.app_url}`);
-  if (story.description) lines.push("", story.description);
+  if (links.length > 0) lines.push(formatLinks(links));
+  if (story.tasks && story.tasks.length > 0) lines.push(formatTasks(story.tasks));
+  const attachments = formatAttachments(story);
+  if (attachments) lines.push(attachments);
+  const vcs = formatVcs(story);
+  if (vcs) lines.push(vcs);
+  if (description) lines.push("", description);
+
+  return lines.join("\n");
+}
+
+/**
+ * "Name (id)" when the name is known, the bare ID otherwise
+ */
+function named<K extends string | number>(
+  names: Map<K, string> | undefined,
+  id: K | null | undefined
+): string {
+  if (id === null || id === undefined || id === "") return "none";
+  const name = names?.get(id);
+  return name ? `${name} (${id})` : String(id);
+}
+
+/**
+ * @mention for a member ID, the ID itself when the member is unknown
+ */
+function mention(names: StoryNames | undefined, id: string): string {
+  const name = names?.members.get(id);
+  return name ? `@${name}` : id;
+}
+
+/**
+ * "just now", "5m ago", "3h ago", "2d ago", or the date when older than a month
+ */
+export function relativeTime(iso: string, now = new Date()): string {
+  const seconds = Math.round((now.getTime() - Date.parse(iso)) / 1000);
+  if (Number.isNaN(seconds)) return iso;
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 30 * 86400) return `${Math.floor(seconds / 86400)}d ago`;
+  return iso.slice(0, 10);
+}
+
+/**
+ * Format tasks as a numbered checklist (numbers are what the task action takes)
+ */
+export function formatTasks(tasks: ShortcutTask[]): string {
+  const sorted = sortTasks(tasks);
+  const done = sorted.filter((t) => t.complete).length;
+
+  return [
+    `Tasks (${done}/${sorted.length}):`,
+    ...sorted.map((t, i) => `- [${t.complete ? "x" : " "}] ${i + 1}. ${t.description}`),
+  ].join("\n");
+}
+
+/**
+ * Tasks in display order
+ */
+export function sortTasks(tasks: ShortcutTask[]): ShortcutTask[] {
+  return [...tasks].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Format linked stories, blockers first
+ */
+export function formatLinks(links: LinkedStory[]): string {
+  const sorted = [...links].sort(
+    (a, b) => LINK_ORDER.indexOf(a.relation) - LINK_ORDER.indexOf(b.relation)
+  );
+
+  return sorted
+    .map((l) => {
+      const relation = l.relation[0].toUpperCase() + l.relation.slice(1);
+      let line = `${relation}: sc-${l.id} ${l.name ?? "?"} [${l.state ?? "?"}]`;
+      if (l.relation === "blocked by" && l.completed === false) line += " (unfinished)";
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Format a story's files, linked files and external links ("" when it has none)
+ */
+export function formatAttachments(story: ShortcutStory): string {
+  const files = story.files ?? [];
+  const linked = story.linked_files ?? [];
+  const external = story.external_links ?? [];
+  if (files.length + linked.length + external.length === 0) return "";
+
+  const lines = [`Attachments (${files.length + linked.length + external.length}):`];
+  for (const f of files) {
+    lines.push(`- File ${f.id}: ${f.name || f.filename} (${formatBytes(f.size)}) ${f.url}`);
+  }
+  for (const f of linked) {
+    const size = f.size ? ` (${formatBytes(f.size)})` : "";
+    lines.push(`- Linked ${f.type} file ${f.id}: ${f.name}${size} ${f.url}`);
+  }
+  for (const url of external) lines.push(`- Link: ${url}`);
 
   return lines.join("\n");
 }
 
+/**
+ * "512 B", "1.2 KB", "3.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+/**
+ * Format a story's branches, pull requests and commits
+ */
+export function formatVcs(story: ShortcutStory): string {
+  const lines: string[] = [];
+
+  // PRs are listed both on the story and under their branch
+  const prs = new Map<number, ShortcutPullRequest>();
+  for (const pr of story.pull_requests ?? []) prs.set(pr.id, pr);
+  for (const branch of story.branches ?? []) {
+    for (const pr of branch.pull_requests ?? []) prs.set(pr.id, pr);
+  }
+
+  const branches = (story.branches ?? []).filter((b) => !b.deleted);
+  if (branches.length > 0) {
+    lines.push(`Branches: ${branches.map((b) => `\`${b.name}\``).join(", ")}`);
+  }
+  if (prs.size > 0) {
+    lines.push(
+      "Pull requests:",
+      ...[...prs.values()].map(
+        (pr) =>
+          `- #${pr.number} [${pullRequestState(pr)}] ${pr.title} (${pr.branch_name} -> ${pr.target_branch_name}) ${pr.url}`
+      )
+    );
+  }
+  const commits = story.commits ?? [];
+  if (commits.length > 0) {
+    lines.push(
+      `Commits (${commits.length}):`,
+      ...commits.slice(-5).map((c) => `- ${c.hash.slice(0, 7)} ${c.message.split("\n")[0]}`)
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function pullRequestState(pr: ShortcutPullRequest): string {
+  if (pr.merged) return "merged";
+  if (pr.closed) return "closed";
+  return pr.draft ? "draft" : "open";
+}
+
 /**
  * Format a list of stories
  */
-export function formatStoryList(stories: ShortcutStory[]): string {
+export function formatStoryList(stories: ShortcutStory[], names?: StoryNames): string {
   if (!stories || stories.length === 0) return "No stories found.";
 
   return stories
     .map((s) => {
-      const state = s.completed ? "done" : s.started ? "started" : "unstarted";
-      return `- **sc-${s.id}** [${state}] ${s.name || "Untitled"} (${s.story_type || "?"}, ${s.estimate ?? "?"}pts)`;
+      // Workflow state name when known, otherwise its type
+      const state =
+        names?.states.get(s.workflow_state_id) ??
+        (s.completed ? "done" : s.started ? "started" : "unstarted");
+      const owners = s.owner_ids?.length
+        ? ` ${s.owner_ids.map((id) => mention(names, id)).join(", ")}`
+        : "";
+      return `- **sc-${s.id}** [${state}] ${s.name || "Untitled"} (${s.story_type || "?"}, ${s.estimate ?? "?"}pts)${owners}`;
     })
     .join("\n");
 }
 
+/**
+ * Footer for a page of results, with the call that fetches the next page
+ */
+export function formatPageFooter(
+  page: ShortcutSearchPage,
+  nextCall: Record<string, unknown>,
+  all?: boolean
+): string {
+  if (page.stories.length === 0) return "";
+
+  let footer = `\n\nShowing ${page.stories.length} of ${page.total}`;
+  if (page.next) {
+    if (all) footer += " (stopped at safety cap)";
+    footer += `\nMore results: ${JSON.stringify({ ...nextCall, cursor: page.next })}`;
+  }
+  return footer;
+}
+
+/**
+ * Format per-story results of a batch operation
+ */
+export function formatBatchResult(verb: string, outcomes: BatchOutcome[]): string {
+  const succeeded = outcomes.filter((o) => o.ok);
+  const failed = outcomes.filter((o) => !o.ok && !o.unknown);
+  const unknown = outcomes.filter((o) => !o.ok && o.unknown);
+
+  const lines = [`${verb} ${succeeded.length} of ${outcomes.length} stories`];
+  if (succeeded.length > 0) {
+    lines.push("", "Changed:", ...succeeded.map((o) => `- sc-${o.id}`));
+  }
+  if (failed.length > 0) {
+    lines.push("", "Failed (unchanged):", ...failed.map((o) => `- sc-${o.id}: ${o.error}`));
+  }
+  if (unknown.length > 0) {
+    lines.push(
+      "",
+      "Failed, may have changed (check with get):",
+      ...unknown.map((o) => `- sc-${o.id}: ${o.error}`)
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a preview of a write that was not sent
+ */
+export function formatDryRun(plan: DryRunPlan): string {
+  const lines = [`Dry run: ${plan.method} ${plan.path} (nothing was sent)`];
+
+  for (const target of plan.targets) {
+    lines.push("", `${target.label}:`);
+    if (target.changes.length === 0) lines.push("- no changes");
+    for (const change of target.changes) {
+      lines.push(
+        change.before !== undefined
+          ? `- ${change.field}: ${change.before} -> ${change.after}`
+          : `- ${change.field}: ${change.after}`
+      );
+    }
+  }
+
+  if (plan.payload !== undefined) {
+    lines.push("", "Payload:", JSON.stringify(plan.payload, null, 2));
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Format an epic for display
  */
-export function formatEpic(epic: ShortcutEpic): string {
+export function formatEpic(
+  epic: ShortcutEpic,
+  description = epic.description,
+  now = new Date()
+): string {
   const stats = epic.stats;
-  return `**Epic ${epic.id}**: ${epic.name || "Untitled"}
-State: ${epic.state || "?"} | Stories: ${stats?.num_stories_total || 0} (${stats?.num_stories_done || 0} done)
-Link: ${epic.app_url || "N/A"}`;
+  const progress = epicProgress(epic, now);
+
+  const lines = [
+    `**Epic ${epic.id}**: ${epic.name || "Untitled"}`,
+    `State: ${epic.state || "?"} | Stories: ${stats?.num_stories_total || 0} (${stats?.num_stories_done || 0} done)`,
+    `Progress: ${progressBar(progress.ratio)} ${Math.round(progress.ratio * 100)}% (${progress.label})`,
+  ];
+
+  if (epic.deadline) {
+    const date = epic.deadline.slice(0, 10);
+    const days = progress.daysLeft!;
+    const when = days < 0 ? `${-days} days overdue` : `${days} days left`;
+    lines.push(`Deadline: ${date} (${when})${progress.atRisk ? " | AT RISK" : ""}`);
+  }
+
+  lines.push(`Link: ${epic.app_url || "N/A"}`);
+  if (description) lines.push("", description);
+
+  return lines.join("\n");
 }
 
 /**
- * Format comments on a story
+ * Format epics with progress, e.g. under an objective
+ */
+export function formatEpicList(epics: ShortcutEpic[], now = new Date()): string {
+  if (epics.length === 0) return "No epics found.";
+
+  return epics
+    .map((e) => {
+      const progress = epicProgress(e, now);
+      const risk = progress.atRisk ? " AT RISK" : "";
+      return `- **Epic ${e.id}** [${e.state || "?"}] ${e.name || "Untitled"} ${progressBar(progress.ratio)} ${Math.round(progress.ratio * 100)}%${risk}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Points-based completion (story counts when nothing is estimated) and
+ * whether the deadline is close with too little done
+ */
+export function epicProgress(
+  epic: ShortcutEpic,
+  now = new Date()
+): { ratio: number; label: string; daysLeft?: number; atRisk: boolean } {
+  const stats = epic.stats;
+  const points = stats?.num_points ?? 0;
+
+  const ratio =
+    points > 0
+      ? (stats?.num_points_done ?? 0) / points
+      : stats?.num_stories_total
+        ? stats.num_stories_done / stats.num_stories_total
+        : 0;
+  const label =
+    points > 0
+      ? `${stats?.num_points_done ?? 0}/${points} pts`
+      : `${stats?.num_stories_done ?? 0}/${stats?.num_stories_total ?? 0} stories`;
+
+  if (!epic.deadline) return { ratio, label, atRisk: false };
+
+  const daysLeft = Math.ceil((Date.parse(epic.deadline) - now.getTime()) / 86400000);
+  const finished = epic.completed || ratio >= 1;
+  const atRisk =
+    !finished && (daysLeft < 0 || (daysLeft <= AT_RISK_DAYS && ratio < AT_RISK_MIN_DONE));
+
+  return { ratio, label, daysLeft, atRisk };
+}
+
+function progressBar(ratio: number, width = 10): string {
+  const filled = Math.round(Math.min(Math.max(ratio, 0), 1) * width);
+  return `[${"#".repeat(filled)}${"-".repeat(width - filled)}]`;
+}
+
+/**
+ * Format an iteration with its stories grouped by progress, and burndown
+ */
+export function formatIteration(
+  iteration: ShortcutIteration,
+  summary: IterationSummary,
+  names?: StoryNames
+): string {
+  const lines = [
+    `**Iteration ${iteration.id}**: ${iteration.name} [${iteration.status}]`,
+    `Dates: ${iteration.start_date} -> ${iteration.end_date}`,
+    `Points: ${summary.committed} committed | ${summary.completed} done | ${summary.remaining} remaining` +
+      (summary.unestimated > 0 ? ` (${summary.unestimated} unestimated)` : ""),
+  ];
+  if (iteration.app_url) lines.push(`Link: ${iteration.app_url}`);
+
+  const sections: Array<[string, ShortcutStory[]]> = [
+    ["Done", summary.groups.done],
+    ["In Progress", summary.groups.started],
+    ["Not Started", summary.groups.unstarted],
+  ];
+  for (const [title, stories] of sections) {
+    if (stories.length > 0) lines.push("", `## ${title} (${stories.length})`, formatStoryList(stories, names));
+  }
+
+  if (summary.burndown.length > 0) {
+    lines.push("", "## Burndown", "| Day | Remaining | Ideal |", "|-----|-----------|-------|");
+    for (const day of summary.burndown) {
+      lines.push(`| ${day.date} | ${day.remaining} | ${day.ideal} |`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a list of iterations
+ */
+export function formatIterationList(iterations: ShortcutIteration[]): string {
+  if (iterations.length === 0) return "No iterations found.";
+
+  return iterations
+    .map((i) => `- **${i.id}** [${i.status}] ${i.name} (${i.start_date} -> ${i.end_date})`)
+    .join("\n");
+}
+
+/**
+ * Format an objective with its epics and rolled-up progress
+ */
+export function formatObjective(objective: ShortcutObjective, epics: ShortcutEpic[]): string {
+  const sum = (pick: (e: ShortcutEpic) => number | undefined) =>
+    epics.reduce((total, e) => total + (pick(e) ?? 0), 0);
+  const stories = sum((e) => e.stats?.num_stories_total);
+  const storiesDone = sum((e) => e.stats?.num_stories_done);
+  const points = sum((e) => e.stats?.num_points);
+  const pointsDone = sum((e) => e.stats?.num_points_done);
+  const ratio = points > 0 ? pointsDone / points : stories > 0 ? storiesDone / stories : 0;
+
+  const lines = [
+    `**Objective ${objective.id}**: ${objective.name || "Untitled"}`,
+    `State: ${objective.state || "?"} | Epics: ${epics.length} | Stories: ${stories} (${storiesDone} done) | Points: ${pointsDone}/${points}`,
+    `Progress: ${progressBar(ratio)} ${Math.round(ratio * 100)}%`,
+    `Link: ${objective.app_url || "N/A"}`,
+  ];
+  if (epics.length > 0) lines.push("", "## Epics", formatEpicList(epics));
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a list of objectives
+ */
+export function formatObjectiveList(objectives: ShortcutObjective[]): string {
+  if (objectives.length === 0) return "No objectives found.";
+  return objectives.map((o) => `- **${o.id}** [${o.state || "?"}] ${o.name}`).join("\n");
+}
+
+/**
+ * Format activity events, newest first, with member IDs shown as @mentions
+ */
+export function formatActivity(events: ActivityEvent[], mentions: Map<string, string>): string {
+  if (events.length === 0) return "No activity recorded.";
+
+  const mention = (id: string) => (mentions.has(id) ? `@${mentions.get(id)}` : id);
+  const uuid = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+  return events
+    .map((e) => {
+      const when = e.occurred_at.slice(0, 16).replace("T", " ");
+      const subject = e.story_id ? `sc-${e.story_id}` : e.epic_id ? `epic ${e.epic_id}` : "";
+      const by = e.member_id ? ` (by ${mention(e.member_id)})` : "";
+      return `- ${when} ${subject} [${e.type}] ${e.summary.replace(uuid, mention)}${by}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Format audit entries, newest first, with state and member IDs shown by name
+ */
+export function formatAuditLog(
+  entries: AuditEntry[],
+  mentions: Map<string, string>,
+  stateNames: Map<number, string>
+): string {
+  if (entries.length === 0) return "No audited changes found.";
+
+  const value = (field: string, raw: unknown): string => {
+    if (raw === null || raw === undefined || (Array.isArray(raw) && raw.length === 0)) {
+      return "none";
+    }
+    if (Array.isArray(raw)) return raw.map((item) => value(field, item)).join(", ");
+    if (field === "workflow_state_id") return stateNames.get(raw as number) ?? String(raw);
+    if (/(owner_ids|follower_ids|requested_by_id)$/.test(field) && mentions.has(raw as string)) {
+      return `@${mentions.get(raw as string)}`;
+    }
+    return typeof raw === "string" ? raw : JSON.stringify(raw);
+  };
+
+  return entries
+    .map((e) => {
+      const when = e.occurred_at.slice(0, 16).replace("T", " ");
+      const stories = e.story_ids.length > 0 ? ` [${e.story_ids.map((id) => `sc-${id}`).join(", ")}]` : "";
+      const lines = [
+        `- **#${e.id}** ${when} @${e.member_name} (token ${e.token_fingerprint}) ${e.action}: ${e.method} ${e.path}${stories}`,
+      ];
+      const multiple = new Set(e.changes.map((c) => c.story_id)).size > 1;
+      for (const change of e.changes) {
+        const prefix = multiple ? `sc-${change.story_id} ` : "";
+        lines.push(
+          "before" in change
+            ? `  ${prefix}${change.field}: ${value(change.field, change.before)} -> ${value(change.field, change.after)}`
+            : `  ${prefix}${change.field}: (unknown) -> ${value(change.field, change.after)}`
+        );
+      }
+      if (!e.ok) lines.push(`  FAILED: ${e.error}`);
+      if (e.undone_at) lines.push(`  Undone at ${e.undone_at.slice(0, 16).replace("T", " ")}`);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Format comments on a story, newest first: those that fit the token budget,
+ * with a note naming the rest and the calls that fetch them
  */
 export function formatComments(
-  comments: Array<{ author_id: string; text: string }> | undefined
+  comments: ShortcutComment[] | undefined,
+  names?: StoryNames,
+  budget = Infinity,
+  commentCall: (id: number) => string = (id) => `comment ${id}`,
+  listCall?: string,
+  now = new Date()
 ): string {
-  if (!comments || comments.length === 0) return "";
-
-  return (
-    "\n\n## Recent Comments\n" +
-    comments
-      .slice(0, 5)
-      .map((c) => `**${c.author_id || "Unknown"}**:\n${c.text || ""}`)
-      .join("\n\n")
+  const visible = (comments ?? []).filter((c) => !c.deleted);
+  if (visible.length === 0) return "";
+
+  const { shown, note } = fitComments(
+    visible,
+    budget,
+    (c, text) => formatComment(c, names, text, now),
+    commentCall,
+    listCall
   );
+  return "\n\n## Recent Comments\n" + [...shown, ...(note ? [note] : [])].join("\n\n");
+}
+
+/**
+ * Format a page of a story's comments with their IDs, threads and reactions
+ */
+export function formatCommentList(
+  comments: ShortcutComment[],
+  names?: StoryNames,
+  now = new Date()
+): string {
+  if (comments.length === 0) return "No comments.";
+
+  return comments
+    .map((c) => {
+      const author = c.author_id ? mention(names, c.author_id) : "Unknown";
+      const details = [
+        relativeTime(c.created_at, now),
+        ...(c.parent_id ? [`reply to #${c.parent_id}`] : []),
+        ...(c.updated_at && c.updated_at !== c.created_at ? ["edited"] : []),
+      ];
+      const reactions = (c.reactions ?? [])
+        .filter((r) => r.permission_ids.length > 0)
+        .map((r) => `${r.emoji} ${r.permission_ids.length}`);
+      const reacted = reactions.length > 0 ? ` [${reactions.join(", ")}]` : "";
+      return `**#${c.id}** ${author} (${details.join(", ")})${reacted}\n${c.text || ""}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Format one comment with its author and age
+ */
+export function formatComment(
+  comment: ShortcutComment,
+  names?: StoryNames,
+  text = comment.text,
+  now = new Date()
+): string {
+  const author = comment.author_id ? mention(names, comment.author_id) : "Unknown";
+  const when = comment.created_at ? ` (${relativeTime(comment.created_at, now)})` : "";
+  return `**${author}**${when}:\n${text || ""}`;
+}
+
+/**
+ * Format a Shortcut API error for the model
+ */
+export function formatApiError(error: ShortcutApiError): string {
+  const lines = [
+    `Shortcut API error ${error.status} on ${error.method} ${error.path}`,
+    `Message: ${error.detail}`,
+  ];
+
+  const fields = Object.entries(error.fieldErrors);
+  if (fields.length > 0) {
+    lines.push("Fields:", ...fields.map(([field, msg]) => `- ${field}: ${msg}`));
+  }
+
+  if (error.status === 429) {
+    lines.push(
+      error.retryAfter !== undefined
+        ? `Rate limited. Retry after ${error.retryAfter}s.`
+        : "Rate limited. Please try again later."
+    );
+  }
+  if (error.status === 401 || error.status === 403) {
+    lines.push("Check that your X-Shortcut-Token is valid and has access to this resource.");
+  }
+
+  return lines.join("\n");
 }
@@ -0,0 +1,224 @@
+/**
+ * StreamShortcut MCP Server - Story Dependency Graph
+ *
+ * Builds the "blocks" graph between stories from their story links and
+ * renders it as a Markdown tree or a Mermaid flowchart.
+ */
+
+import { ShortcutStory, ShortcutStoryLink } from "./types";
+
+export type LinkRelation = "blocks" | "blocked by" | "duplicates" | "duplicated by" | "relates to";
+
+export interface GraphNode {
+  id: number;
+  name: string;
+  state: string;
+  completed: boolean;
+  // Linked from the graph's stories but not one of them
+  external: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: Map<number, GraphNode>;
+  // [blocker, blocked]
+  edges: Array<[number, number]>;
+  cycles: number[][];
+  // Unfinished stories waiting on unfinished blockers
+  blocked: Set<number>;
+}
+
+/**
+ * How a link reads from the point of view of the given story
+ */
+export function linkRelation(
+  link: ShortcutStoryLink,
+  storyId: number
+): { relation: LinkRelation; otherId: number } {
+  const isSubject = link.subject_id === storyId;
+  const otherId = isSubject ? link.object_id : link.subject_id;
+
+  if (link.verb === "blocks") return { relation: isSubject ? "blocks" : "blocked by", otherId };
+  if (link.verb === "duplicates") {
+    return { relation: isSubject ? "duplicates" : "duplicated by", otherId };
+  }
+  return { relation: "relates to", otherId };
+}
+
+/**
+ * Build the blocking graph for a set of stories plus their outside blockers
+ */
+export function buildDependencyGraph(
+  stories: ShortcutStory[],
+  external: ShortcutStory[],
+  stateNames: Map<number, string>
+): DependencyGraph {
+  const nodes = new Map<number, GraphNode>();
+  const toNode = (story: ShortcutStory, isExternal: boolean): GraphNode => ({
+    id: story.id,
+    name: story.name,
+    state: stateNames.get(story.workflow_state_id) ?? String(story.workflow_state_id),
+    completed: story.completed,
+    external: isExternal,
+  });
+
+  for (const story of stories) nodes.set(story.id, toNode(story, false));
+  for (const story of external) {
+    if (!nodes.has(story.id)) nodes.set(story.id, toNode(story, true));
+  }
+
+  const seen = new Set<string>();
+  const edges: Array<[number, number]> = [];
+  for (const story of stories) {
+    for (const link of story.story_links ?? []) {
+      if (link.verb !== "blocks") continue;
+      const key = `${link.subject_id}>${link.object_id}`;
+      if (seen.has(key) || !nodes.has(link.subject_id) || !nodes.has(link.object_id)) continue;
+      seen.add(key);
+      edges.push([link.subject_id, link.object_id]);
+    }
+  }
+
+  const blocked = new Set<number>();
+  for (const [blocker, target] of edges) {
+    if (!nodes.get(blocker)!.completed && !nodes.get(target)!.completed) blocked.add(target);
+  }
+
+  return { nodes, edges, cycles: findCycles(nodes, edges), blocked };
+}
+
+/**
+ * Render the graph as an indented Markdown tree, roots first
+ */
+export function renderGraphMarkdown(graph: DependencyGraph): string {
+  if (graph.edges.length === 0) return "No blocking links between these stories.";
+
+  const children = adjacency(graph.edges);
+  const hasParent = new Set(graph.edges.map(([, target]) => target));
+  const inGraph = [...new Set(graph.edges.flat())];
+  // Stories in a cycle may have no root; start from them too
+  const roots = [
+    ...inGraph.filter((id) => !hasParent.has(id)),
+    ...graph.cycles.map((cycle) => cycle[0]),
+  ];
+
+  const lines: string[] = [];
+  const shown = new Set<number>();
+
+  const walk = (id: number, depth: number, prefix: string) => {
+    const indent = "  ".repeat(depth);
+    if (shown.has(id)) {
+      lines.push(`${indent}- ${prefix}sc-${id} (see above)`);
+      return;
+    }
+    shown.add(id);
+    lines.push(`${indent}- ${prefix}${describeNode(graph, id)}`);
+    for (const child of children.get(id) ?? []) walk(child, depth + 1, "blocks ");
+  };
+
+  for (const root of roots) {
+    if (!shown.has(root)) walk(root, 0, "");
+  }
+
+  return [...lines, ...graphWarnings(graph)].join("\n");
+}
+
+/**
+ * Render the graph as a Mermaid flowchart
+ */
+export function renderGraphMermaid(graph: DependencyGraph): string {
+  if (graph.edges.length === 0) return "No blocking links between these stories.";
+
+  const ids = [...new Set(graph.edges.flat())];
+  const cyclic = new Set(graph.cycles.flat());
+
+  const lines = ["```mermaid", "graph TD"];
+  for (const id of ids) {
+    const node = graph.nodes.get(id)!;
+    const label = `sc-${id}: ${node.name} (${node.state})`.replace(/"/g, "#quot;");
+    lines.push(`  sc${id}["${label}"]`);
+  }
+  for (const [blocker, target] of graph.edges) lines.push(`  sc${blocker} --> sc${target}`);
+
+  lines.push(
+    "  classDef done fill:#e6ffed,stroke:#2da44e",
+    "  classDef blocked stroke:#d1242f,stroke-width:2px",
+    "  classDef cycle fill:#fff8c5,stroke:#bf8700",
+    "  classDef external stroke-dasharray:4 4"
+  );
+  const classes: Array<[string, number[]]> = [
+    ["done", ids.filter((id) => graph.nodes.get(id)!.completed)],
+    ["blocked", ids.filter((id) => graph.blocked.has(id))],
+    ["cycle", ids.filter((id) => cyclic.has(id))],
+    ["external", ids.filter((id) => graph.nodes.get(id)!.external)],
+  ];
+  for (const [name, members] of classes) {
+    if (members.length > 0) lines.push(`  class ${members.map((id) => `sc${id}`).join(",")} ${name}`);
+  }
+  lines.push("```");
+
+  return [...lines, ...graphWarnings(graph)].join("\n");
+}
+
+function describeNode(graph: DependencyGraph, id: number): string {
+  const node = graph.nodes.get(id)!;
+  let text = `sc-${id} ${node.name} [${node.state}]`;
+  if (node.external) text += " (outside epic)";
+  if (graph.blocked.has(id)) text += " BLOCKED";
+  return text;
+}
+
+function graphWarnings(graph: DependencyGraph): string[] {
+  const lines: string[] = [];
+  if (graph.blocked.size > 0) {
+    const ids = [...graph.blocked].map((id) => `sc-${id}`).join(", ");
+    lines.push("", `Blocked by unfinished work: ${ids}`);
+  }
+  for (const cycle of graph.cycles) {
+    const path = [...cycle, cycle[0]].map((id) => `sc-${id}`).join(" -> ");
+    lines.push("", `Cycle: ${path}`);
+  }
+  return lines;
+}
+
+function adjacency(edges: Array<[number, number]>): Map<number, number[]> {
+  const map = new Map<number, number[]>();
+  for (const [from, to] of edges) map.set(from, [...(map.get(from) ?? []), to]);
+  return map;
+}
+
+/**
+ * Every distinct cycle, via depth-first search for back edges
+ */
+function findCycles(nodes: Map<number, GraphNode>, edges: Array<[number, number]>): number[][] {
+  const children = adjacency(edges);
+  const state = new Map<number, "visiting" | "done">();
+  const stack: number[] = [];
+  const cycles: number[][] = [];
+  const keys = new Set<string>();
+
+  const visit = (id: number) => {
+    state.set(id, "visiting");
+    stack.push(id);
+
+    for (const child of children.get(id) ?? []) {
+      if (state.get(child) === "visiting") {
+        const cycle = stack.slice(stack.indexOf(child));
+        const key = [...cycle].sort((a, b) => a - b).join(",");
+        if (!keys.has(key)) {
+          keys.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(child)) {
+        visit(child);
+      }
+    }
+
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of nodes.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+  return cycles;
+}
@@ -2,65 +2,305 @@
  * StreamShortcut MCP Server - Action Handlers
  */
 
-import { ShortcutClient, resolveId } from "./client";
-import { ToolResult, ShortcutParamsType } from "./types";
-import { formatStory, formatStoryList, formatEpic, formatComments } from "./formatters";
+import { ShortcutClient, resolveId, MAX_SEARCH_RESULTS } from "./client";
+import { ShortcutApiError, ResolutionError } from "./errors";
+import { compileQuery } from "./query";
+import { closeMatches, resolveTaskMatch } from "./resolver";
+import {
+  AuditChange,
+  AuditEntry,
+  AuthSession,
+  Env,
+  ToolResult,
+  ShortcutParamsType,
+  ShortcutStory,
+  ShortcutWorkflow,
+  ShortcutLinkVerb,
+  LinkedStory,
+  ShortcutTask,
+  ShortcutIteration,
+  BatchOutcome,
+  DryRunPlan,
+  ShortcutSearchPage,
+  StoryNames,
+  ShortcutComment,
+  ShortcutMember,
+} from "./types";
+import { mapSettled, errorMessage } from "./utils";
+import {
+  formatStory,
+  formatStoryList,
+  formatEpic,
+  epicProgress,
+  formatComments,
+  formatComment,
+  formatCommentList,
+  formatApiError,
+  formatPageFooter,
+  formatBatchResult,
+  formatDryRun,
+  formatTasks,
+  sortTasks,
+  formatIteration,
+  formatIterationList,
+  formatObjective,
+  formatObjectiveList,
+  formatActivity,
+  formatVcs,
+  formatAuditLog,
+  formatAttachments,
+  formatBytes,
+} from "./formatters";
+import { activityStore } from "./activity";
+import { resolveStoryNames } from "./enrich";
+import { resolveMentions } from "./mentions";
+import { Detail, estimateTokens, findSection, fitDescription, tokenBudget } from "./budget";
+import {
+  ITERATION_COLUMNS,
+  OBJECTIVE_COLUMNS,
+  OutputOptions,
+  STORY_COLUMNS,
+  STORY_DETAIL_FIELDS,
+  STORY_LIST_COLUMNS,
+  STORY_LIST_FIELDS,
+  outputOptions,
+  renderRows,
+  selectFields,
+  selectListFields,
+  toRecords,
+} from "./output";
+import { revokeGrants } from "./auth";
+import { auditLog } from "./audit";
+import { StoryUndo, changedSince, isStoryCreate, isUndoable, planStoryUndo } from "./undo";
+import { NamedPolicy, enforceBatchSize, enforcePolicies, resolveApiPath } from "./policy";
+import { summarizeIteration } from "./iterations";
+import { describePayload, diffStory } from "./preview";
+import {
+  linkRelation,
+  buildDependencyGraph,
+  renderGraphMarkdown,
+  renderGraphMermaid,
+} from "./graph";
+import {
+  StoryFields,
+  StoryUpdates,
+  buildUpdateInput,
+  buildFieldsInput,
+  canBulkUpdate,
+  hasDeltas,
+  materializeDeltas,
+  resolveMemberIds,
+  EpicFields,
+  buildEpicInput,
+} from "./payload";
+
+// Stories returned per call unless `limit` or `all` says otherwise
+const DEFAULT_LIMIT = 25;
+
+// Comments per page of the comments action
+const COMMENTS_PAGE_SIZE = 10;
+
+// Largest file the attachment action uploads (content travels in the tool call)
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Content types by extension, for uploads that don't give one
+const CONTENT_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  html: "text/html",
+  xml: "application/xml",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+};
+
+// Most activity events or audit entries returned per call
+const MAX_ACTIVITY_EVENTS = 200;
+
+// Batch updates
+const MAX_BATCH_SIZE = 100;
+const BATCH_CONCURRENCY = 5;
+
+interface Paging {
+  limit?: number;
+  cursor?: string;
+  all?: boolean;
+}
+
+// How much of a long description or comment thread to show, or which part
+interface Budget {
+  maxTokens?: number;
+  detail?: Detail;
+  section?: string;
+  comment?: number;
+}
+
+// Share of the budget comments (on a story) or the story list (on an epic)
+// may take from the description
+const COMMENT_BUDGET_SHARE = 0.4;
+const STORY_LIST_BUDGET_SHARE = 0.5;
 
 /**
  * Main action dispatcher
  */
 export async function handleAction(
   params: ShortcutParamsType,
-  client: ShortcutClient
+  client: ShortcutClient,
+  env: Env,
+  session: AuthSession
 ): Promise<ToolResult> {
   try {
+    enforcePolicies(session.policies, params);
+
     let result: string;
 
     switch (params.action) {
       case "search":
-        result = await handleSearch(client, params.query);
+        result = await handleSearch(client, params.query, params, outputOptions(params));
         break;
 
       case "get":
         if (!params.id) throw new Error("id required");
-        result = await handleGet(client, params.id);
+        result = await handleGet(client, params.id, outputOptions(params), params);
         break;
 
-      case "update":
-        if (!params.id) throw new Error("id required");
-        result = await handleUpdate(client, params.id, {
-          state: params.state,
-          estimate: params.estimate,
-          owner: params.owner,
-          type: params.type,
-          name: params.name,
-        });
+      case "update": {
+        const updates: StoryUpdates = { ...storyFields(params), state: params.state };
+        if (params.ids) {
+          result = await handleBatchUpdate(client, params.ids, updates, params.dryRun);
+        } else {
+          if (!params.id) throw new Error("id or ids required");
+          result = await handleUpdate(client, params.id, updates, params.dryRun);
+        }
         break;
+      }
 
       case "comment":
         if (!params.id || !params.body) throw new Error("id and body required");
-        result = await handleComment(client, params.id, params.body);
+        result = await handleComment(client, params.id, params.body, params.dryRun);
         break;
 
       case "create":
         if (!params.name) throw new Error("name required");
-        result = await handleCreate(client, params.name, {
-          type: params.type,
-          estimate: params.estimate,
-          epic: params.epic,
+        result = await handleCreate(client, {
+          ...storyFields(params),
+          name: params.name,
           state: params.state,
-          owner: params.owner,
-        });
+          workflow: params.workflow,
+          team: params.team,
+        }, params.dryRun);
         break;
 
       case "epic":
+        if (params.op === "create") {
+          if (!params.name) throw new Error("name required");
+          result = await handleEpicCreate(client, epicFields(params), params.dryRun);
+          break;
+        }
+        if (!params.id) throw new Error("id required");
+        if (params.op === "update") {
+          result = await handleEpicUpdate(client, params.id, epicFields(params), params.dryRun);
+        } else if (params.op === "add" || params.op === "remove") {
+          if (!params.ids) throw new Error("ids required");
+          result = await handleEpicStories(client, params.id, params.ids, params.op, params.dryRun);
+        } else if (params.op) {
+          throw new Error("op must be create, update, add or remove");
+        } else {
+          result = await handleEpic(
+            client,
+            params.id,
+            params,
+            params.graph,
+            outputOptions(params),
+            params
+          );
+        }
+        break;
+
+      case "objective":
+        result = await handleObjective(client, params.id, outputOptions(params));
+        break;
+
+      case "link": {
+        if (!params.id || !params.target) throw new Error("id and target required");
+        const op = params.op ?? "add";
+        if (op !== "add" && op !== "remove") throw new Error("op must be add or remove");
+        result = await handleLink(client, params.id, params.target, params.verb, op, params.dryRun);
+        break;
+      }
+
+      case "task":
         if (!params.id) throw new Error("id required");
-        result = await handleEpic(client, params.id);
+        result = await handleTask(client, params.id, params.op ?? "add", {
+          task: params.task,
+          body: params.body,
+          owner: params.owner,
+          position: params.position,
+        }, params.dryRun);
+        break;
+
+      case "iteration":
+        result = await handleIteration(
+          client,
+          params.id ?? "current",
+          params.op,
+          params,
+          outputOptions(params),
+          session.policies
+        );
+        break;
+
+      case "activity":
+        result = await handleActivity(client, env, params);
+        break;
+
+      case "comments":
+        if (!params.id) throw new Error("id required");
+        result = await handleComments(client, params.id, params.op ?? "list", params);
+        break;
+
+      case "attachment":
+        if (!params.id) throw new Error("id required");
+        result = await handleAttachment(client, params.id, params.op ?? "list", params);
+        break;
+
+      case "branch":
+        if (!params.id) throw new Error("id required");
+        result = await handleBranch(client, params.id);
+        break;
+
+      case "whoami":
+        result = await handleWhoami(client, session);
+        break;
+
+      case "logout":
+        result = await handleLogout(env, session, params.all);
+        break;
+
+      case "audit":
+        result = await handleAudit(client, env, params);
+        break;
+
+      case "undo":
+        result = await handleUndo(client, env, session, params.id, params.dryRun);
         break;
 
       case "api":
         if (!params.method || !params.path) throw new Error("method and path required");
-        result = await handleApi(client, params.method, params.path, params.query as Record<string, unknown>);
+        result = await handleApi(
+          client,
+          params.method,
+          params.path,
+          params.query as Record<string, unknown>,
+          params.dryRun
+        );
         break;
 
       case "help":
@@ -73,173 +313,1747 @@ export async function handleAction(
 
     return { content: [{ type: "text" as const, text: result }] };
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return { content: [{ type: "text" as const, text: `Error: ${message}` }], isError: true };
+    if (error instanceof ShortcutApiError) {
+      return { content: [{ type: "text" as const, text: formatApiError(error) }], isError: true };
+    }
+    return { content: [{ type: "text" as const, text: `Error: ${errorMessage(error)}` }], isError: true };
   }
 }
 
 async function handleSearch(
   client: ShortcutClient,
-  query?: string | Record<string, unknown>
+  query: string | Record<string, unknown> | undefined,
+  paging: Paging,
+  output?: OutputOptions
 ): Promise<string> {
-  let searchParams: Record<string, unknown> = {};
+  const searchQuery = await buildSearchQuery(client, query);
+  const page = await fetchStories(client, searchQuery, paging);
+  const names = await resolveStoryNames(client, page.stories);
+
+  if (output) {
+    const nextCall = { action: "search", query: searchQuery, ...outputParams(output) };
+    return renderStoryPage(page, names, output, nextCall, paging.all, { query: searchQuery });
+  }
+
+  return (
+    `Query: \`${searchQuery}\`\n\n` +
+    formatStoryList(page.stories, names) +
+    formatPageFooter(page, { action: "search", query: searchQuery }, paging.all)
+  );
+}
 
+/**
+ * Translate the search param into Shortcut search syntax
+ */
+async function buildSearchQuery(
+  client: ShortcutClient,
+  query?: string | Record<string, unknown>
+): Promise<string> {
   if (!query) {
-    // Default: current user's stories, not archived
+    // Default: current user's stories (search excludes archived by default)
     const member = await client.getCurrentMember();
-    searchParams = { owner_ids: [member.id], archived: false };
-  } else if (typeof query === "string") {
-    searchParams = { query };
-  } else {
-    // Structured query
-    if (query.owner === "me") {
-      const member = await client.getCurrentMember();
-      searchParams.owner_ids = [member.id];
-    } else if (query.owner) {
-      const memberId = await client.resolveMember(query.owner as string);
-      if (memberId) searchParams.owner_ids = [memberId];
-    }
-    if (query.state) {
-      const stateId = await client.resolveState(query.state as string);
-      if (stateId) searchParams.workflow_state_id = stateId;
-    }
-    if (query.epic) searchParams.epic_ids = [query.epic];
-    if (query.iteration) searchParams.iteration_ids = [query.iteration];
-    if (query.type) searchParams.story_type = query.type;
-    if (query.archived !== undefined) searchParams.archived = query.archived;
+    return `owner:${member.profile.mention_name}`;
+  }
+  if (typeof query === "string") return query;
+  return compileQuery(client, query);
+}
+
+/**
+ * A page of stories in a requested output format. JSON carries the paging
+ * (and any parent details) in the object; the other formats end with the
+ * usual footer.
+ */
+function renderStoryPage(
+  page: ShortcutSearchPage,
+  names: StoryNames,
+  output: OutputOptions,
+  nextCall: Record<string, unknown>,
+  all?: boolean,
+  parent: Record<string, unknown> = {}
+): string {
+  const fields = selectListFields(output.fields, STORY_LIST_FIELDS);
+  const stories = toRecords(page.stories, STORY_LIST_COLUMNS, fields, names);
+
+  if (output.format === "json") {
+    return JSON.stringify({ ...parent, total: page.total, next: page.next, stories });
   }
+  return renderRows(stories, fields, output.format) + formatPageFooter(page, nextCall, all);
+}
 
-  const stories = await client.searchStories(searchParams);
-  return formatStoryList(stories);
+/**
+ * Params that keep the output format on the next page
+ */
+function outputParams(output: OutputOptions): Record<string, unknown> {
+  return output.fields ? { format: output.format, fields: output.fields } : { format: output.format };
+}
+
+/**
+ * Fetch a page (or, with `all`, every page up to the safety cap) of results
+ */
+function fetchStories(client: ShortcutClient, query: string, paging: Paging) {
+  const limit = paging.all ? MAX_SEARCH_RESULTS : paging.limit ?? DEFAULT_LIMIT;
+  return client.searchStoriesPaged(query, limit, paging.cursor);
 }
 
-async function handleGet(client: ShortcutClient, id: string): Promise<string> {
+async function handleGet(
+  client: ShortcutClient,
+  id: string,
+  output?: OutputOptions,
+  budget: Budget = {}
+): Promise<string> {
   const storyId = resolveId(id);
   const story = await client.getStory(storyId);
   if (!story) return `Story sc-${storyId} not found`;
 
-  const stateName = await client.getStateName(story.workflow_state_id);
-  let result = formatStory(story, stateName);
-  result += formatComments(story.comments);
+  const names = await resolveStoryNames(client, [story], story.comments);
+
+  if (budget.section) {
+    const section = findSection(story.description ?? "", budget.section);
+    return `sc-${storyId} description, section ${section.number}:\n\n${section.text}`;
+  }
+  if (budget.comment) {
+    const comment = story.comments?.find((c) => c.id === budget.comment);
+    if (!comment) throw new Error(`No comment ${budget.comment} on sc-${storyId}`);
+    return `Comment ${comment.id} on sc-${storyId}\n${formatComment(comment, names)}`;
+  }
+
+  if (output) {
+    const fields = selectFields(STORY_COLUMNS, output.fields, STORY_DETAIL_FIELDS);
+    const [record] = toRecords([story], STORY_COLUMNS, fields, names);
+    return output.format === "json"
+      ? JSON.stringify(record)
+      : renderRows([record], fields, output.format);
+  }
+
+  const links = await loadLinkedStories(client, story);
+  const call = (part: Record<string, unknown>) =>
+    JSON.stringify({ action: "get", id: String(storyId), ...part });
+
+  // The header is always shown; the description and comments share what's left
+  const header = formatStory(story, names, links, "");
+  let left = tokenBudget(budget.maxTokens, budget.detail) - estimateTokens(header);
+  const comments = (story.comments ?? []).filter((c) => !c.deleted);
+  const commentTokens = estimateTokens(comments.map((c) => c.text).join("\n"));
+  const descriptionBudget = Math.max(left - Math.min(commentTokens, left * COMMENT_BUDGET_SHARE), 0);
+
+  const description = story.description
+    ? fitDescription(
+        story.description,
+        descriptionBudget,
+        (n) => call({ section: String(n) }),
+        call({ detail: "full" })
+      )
+    : undefined;
+  left -= description ? estimateTokens(description) : 0;
+
+  let result = formatStory(story, names, links, description);
+  result += formatComments(
+    comments,
+    names,
+    Math.max(left, 0),
+    (commentId) => call({ comment: commentId }),
+    JSON.stringify({ action: "comments", id: String(storyId) })
+  );
 
   return result;
 }
 
+/**
+ * Story fields shared by create and update
+ */
+function storyFields(params: ShortcutParamsType): StoryFields {
+  return {
+    name: params.name,
+    type: params.type,
+    estimate: params.estimate,
+    description: params.description,
+    owner: params.owner,
+    owners: params.owners,
+    addOwners: params.addOwners,
+    removeOwners: params.removeOwners,
+    labels: params.labels,
+    addLabels: params.addLabels,
+    removeLabels: params.removeLabels,
+    createLabels: params.createLabels,
+    followers: params.followers,
+    requester: params.requester,
+    iteration: params.iteration,
+    deadline: params.deadline,
+    epic: params.epic,
+  };
+}
+
 async function handleUpdate(
   client: ShortcutClient,
   id: string,
-  updates: {
-    state?: string;
-    estimate?: number;
-    owner?: string | null;
-    type?: string;
-    name?: string;
-  }
+  updates: StoryUpdates,
+  dryRun?: boolean
 ): Promise<string> {
   const storyId = resolveId(id);
-  const input: Record<string, unknown> = {};
 
-  if (updates.state) {
-    const stateId = await client.resolveState(updates.state);
-    if (stateId) {
-      input.workflow_state_id = stateId;
-    } else {
-      const allStates = await client.getAllStateNames();
-      return `State "${updates.state}" not found. Valid: ${allStates.join(", ")}`;
+  // The current story scopes the state to its workflow and anchors add/remove
+  const needsStory = Boolean(
+    updates.state ||
+      updates.addOwners ||
+      updates.removeOwners ||
+      updates.addLabels ||
+      updates.removeLabels ||
+      dryRun
+  );
+  const current = needsStory ? await client.getStory(storyId) : undefined;
+  const resolved = await buildUpdateInput(client, updates, current?.workflow_id);
+  if (Object.keys(resolved).length === 0) return "No updates provided";
+
+  const input = materializeDeltas(current, resolved);
+
+  if (dryRun && current) {
+    return formatDryRun({
+      method: "PUT",
+      path: `/stories/${storyId}`,
+      payload: input,
+      targets: [
+        { label: `sc-${storyId}: ${current.name}`, changes: await diffStory(client, current, input) },
+      ],
+    });
+  }
+
+  const story = await client.updateStory(storyId, input, current);
+  if (updates.createLabels) await client.invalidate("labels");
+  return `Updated sc-${story.id}: ${story.app_url}`;
+}
+
+/**
+ * Update many stories, resolving state and owner once per workflow.
+ *
+ * Uses the bulk endpoint when the change can be expressed there, otherwise
+ * (or if the bulk call is rejected) updates stories individually so each
+ * failure is attributed to its story.
+ */
+async function handleBatchUpdate(
+  client: ShortcutClient,
+  ids: string[],
+  updates: StoryUpdates,
+  dryRun?: boolean
+): Promise<string> {
+  const storyIds = [...new Set(ids.map(resolveId))];
+  if (storyIds.length === 0) throw new Error("ids must not be empty");
+  if (storyIds.length > MAX_BATCH_SIZE) {
+    throw new Error(`At most ${MAX_BATCH_SIZE} stories per batch (got ${storyIds.length})`);
+  }
+  if (updates.name) throw new Error("name cannot be set on multiple stories at once");
+  if (Object.values(updates).every((v) => v === undefined)) return "No updates provided";
+
+  const outcomes: BatchOutcome[] = [];
+  const stories = new Map<number, ShortcutStory>();
+
+  // Stories are needed to scope the state to each story's workflow, and for previews
+  const groups = new Map<number | undefined, number[]>();
+  if (updates.state || dryRun) {
+    const fetched = await mapSettled(storyIds, BATCH_CONCURRENCY, (storyId) =>
+      client.getStory(storyId)
+    );
+    fetched.forEach((r, i) => {
+      if (r.status === "rejected") {
+        outcomes.push({ id: storyIds[i], ok: false, error: errorMessage(r.reason) });
+        return;
+      }
+      stories.set(storyIds[i], r.value);
+      const key = updates.state ? r.value.workflow_id : undefined;
+      groups.set(key, [...(groups.get(key) ?? []), storyIds[i]]);
+    });
+  } else {
+    groups.set(undefined, storyIds);
+  }
+
+  const plans: DryRunPlan[] = [];
+  for (const [workflowId, groupIds] of groups) {
+    let input: Record<string, unknown>;
+    try {
+      input = await buildUpdateInput(client, updates, workflowId);
+    } catch (error) {
+      outcomes.push(...groupIds.map((id) => ({ id, ok: false, error: errorMessage(error) })));
+      continue;
+    }
+
+    if (dryRun) {
+      plans.push(await planBatchUpdate(client, groupIds, input, stories));
+      continue;
+    }
+    // A failed group must not hide the groups already changed
+    try {
+      outcomes.push(...(await applyBatchUpdate(client, groupIds, input, stories)));
+    } catch (error) {
+      outcomes.push(...groupIds.map((id) => failedWrite(id, error)));
     }
   }
+  if (updates.createLabels && !dryRun) await client.invalidate("labels");
 
-  if (updates.estimate !== undefined) input.estimate = updates.estimate;
-  if (updates.name) input.name = updates.name;
-  if (updates.type) input.story_type = updates.type;
+  if (dryRun) {
+    const failures = outcomes.map((o) => `- sc-${o.id}: would fail: ${o.error}`);
+    return [...plans.map(formatDryRun), ...(failures.length ? [failures.join("\n")] : [])].join(
+      "\n\n"
+    );
+  }
 
-  if (updates.owner !== undefined) {
-    if (updates.owner === null) {
-      input.owner_ids = [];
-    } else {
-      const memberId = await client.resolveMember(updates.owner);
-      if (memberId) input.owner_ids = [memberId];
-      else return `Could not find member "${updates.owner}"`;
+  const order = new Map(storyIds.map((id, i) => [id, i]));
+  outcomes.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  return formatBatchResult("Updated", outcomes);
+}
+
+async function applyBatchUpdate(
+  client: ShortcutClient,
+  storyIds: number[],
+  input: Record<string, unknown>,
+  stories: Map<number, ShortcutStory>
+): Promise<BatchOutcome[]> {
+  if (canBulkUpdate(input)) {
+    try {
+      await client.bulkUpdateStories(storyIds, input, stories);
+      return storyIds.map((id) => ({ id, ok: true }));
+    } catch (error) {
+      // Rejected as a whole (e.g. one missing story): retry individually
+      if (!(error instanceof ShortcutApiError) || error.status >= 500) throw error;
     }
   }
 
-  if (Object.keys(input).length === 0) return "No updates provided";
+  const results = await mapSettled(storyIds, BATCH_CONCURRENCY, async (storyId) => {
+    // Add/remove changes need each story's current values
+    const story = hasDeltas(input)
+      ? stories.get(storyId) ?? (await client.getStory(storyId))
+      : stories.get(storyId);
+    return client.updateStory(storyId, materializeDeltas(story, input), story);
+  });
+  return results.map((r, i) =>
+    r.status === "fulfilled" ? { id: storyIds[i], ok: true } : failedWrite(storyIds[i], r.reason)
+  );
+}
 
-  const story = await client.updateStory(storyId, input);
-  return `Updated sc-${story.id}: ${story.app_url}`;
+/**
+ * Outcome of a story write that threw. A 4xx means Shortcut refused it;
+ * after a timeout, network error or 5xx it may still have been applied.
+ */
+function failedWrite(id: number, error: unknown): BatchOutcome {
+  const refused = error instanceof ShortcutApiError && error.status < 500;
+  return { id, ok: false, error: errorMessage(error), ...(refused ? {} : { unknown: true }) };
+}
+
+async function planBatchUpdate(
+  client: ShortcutClient,
+  storyIds: number[],
+  input: Record<string, unknown>,
+  stories: Map<number, ShortcutStory>
+): Promise<DryRunPlan> {
+  const bulk = canBulkUpdate(input);
+  const targets = [];
+  for (const storyId of storyIds) {
+    const story = stories.get(storyId);
+    if (!story) continue;
+    targets.push({
+      label: `sc-${storyId}: ${story.name}`,
+      changes: await diffStory(client, story, materializeDeltas(story, input)),
+    });
+  }
+
+  return {
+    method: "PUT",
+    path: bulk ? "/stories/bulk" : `/stories/{id} x${storyIds.length}`,
+    payload: bulk ? { ...input, story_ids: storyIds } : input,
+    targets,
+  };
 }
 
 async function handleComment(
   client: ShortcutClient,
   id: string,
-  body: string
+  body: string,
+  dryRun?: boolean,
+  parentId?: number
 ): Promise<string> {
   const storyId = resolveId(id);
-  await client.addComment(storyId, body);
-  return `Added comment to sc-${storyId}`;
+  const { text, mentioned, unknown } = resolveMentions(body, await client.getMembers());
+  const notes = mentionNotes(mentioned, unknown);
+
+  if (dryRun) {
+    const story = await client.getStory(storyId);
+    return [
+      formatDryRun({
+        method: "POST",
+        path: `/stories/${storyId}/comments`,
+        payload: { text, ...(parentId ? { parent_id: parentId } : {}) },
+        targets: [
+          {
+            label: parentId ? `sc-${storyId}: reply to #${parentId}` : `sc-${storyId}: ${story.name}`,
+            changes: [{ field: "text", after: text }],
+          },
+        ],
+      }),
+      ...notes,
+    ].join("\n");
+  }
+
+  const comment = await client.addComment(storyId, text, parentId);
+  const what = parentId ? `reply #${comment.id} to #${parentId}` : `comment #${comment.id}`;
+  return [`Added ${what} on sc-${storyId}`, ...notes].join("\n");
 }
 
-async function handleCreate(
+/**
+ * List a story's comments newest first, or change one of them
+ */
+async function handleComments(
   client: ShortcutClient,
-  name: string,
+  id: string,
+  op: NonNullable<ShortcutParamsType["op"]>,
+  options: Paging & { comment?: number; body?: string; emoji?: string; dryRun?: boolean }
+): Promise<string> {
+  const storyId = resolveId(id);
+
+  switch (op) {
+    case "list": {
+      const comments = (await client.getComments(storyId))
+        .filter((c) => !c.deleted)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      const offset = options.cursor ? parseInt(options.cursor, 10) || 0 : 0;
+      const limit = options.all ? comments.length : options.limit ?? COMMENTS_PAGE_SIZE;
+      const page = comments.slice(offset, offset + limit);
+
+      const names = await resolveStoryNames(client, [], page);
+      let result = `Comments on sc-${storyId}, newest first\n\n` + formatCommentList(page, names);
+      if (page.length > 0) {
+        result += `\n\nShowing ${offset + 1}-${offset + page.length} of ${comments.length}`;
+      }
+      if (offset + page.length < comments.length) {
+        const next = { action: "comments", id: String(storyId), cursor: String(offset + page.length) };
+        result += `\nMore comments: ${JSON.stringify(next)}`;
+      }
+      return result;
+    }
+
+    case "add":
+      if (!options.body) throw new Error("body required");
+      return handleComment(client, id, options.body, options.dryRun);
+
+    case "reply":
+      if (!options.comment || !options.body) throw new Error("comment and body required");
+      return handleComment(client, id, options.body, options.dryRun, options.comment);
+
+    case "edit": {
+      if (!options.comment || !options.body) throw new Error("comment and body required");
+      const comment = await loadOwnComment(client, storyId, options.comment, "edit");
+      const { text, mentioned, unknown } = resolveMentions(options.body, await client.getMembers());
+      const notes = mentionNotes(mentioned, unknown);
+      if (options.dryRun) {
+        return [
+          formatDryRun({
+            method: "PUT",
+            path: `/stories/${storyId}/comments/${comment.id}`,
+            payload: { text },
+            targets: [
+              {
+                label: `sc-${storyId}: comment #${comment.id}`,
+                changes: [{ field: "text", before: comment.text, after: text }],
+              },
+            ],
+          }),
+          ...notes,
+        ].join("\n");
+      }
+      await client.updateComment(storyId, comment.id, text);
+      return [`Edited comment #${comment.id} on sc-${storyId}`, ...notes].join("\n");
+    }
+
+    case "remove": {
+      if (!options.comment) throw new Error("comment required");
+      const comment = await loadOwnComment(client, storyId, options.comment, "delete");
+      if (options.dryRun) {
+        return formatDryRun({
+          method: "DELETE",
+          path: `/stories/${storyId}/comments/${comment.id}`,
+          targets: [
+            {
+              label: `sc-${storyId}: comment #${comment.id}`,
+              changes: [{ field: "text", before: comment.text, after: "(deleted)" }],
+            },
+          ],
+        });
+      }
+      await client.deleteComment(storyId, comment.id);
+      return `Deleted comment #${comment.id} on sc-${storyId}`;
+    }
+
+    case "react":
+    case "unreact": {
+      if (!options.comment || !options.emoji) throw new Error("comment and emoji required");
+      const emoji = `:${options.emoji.trim().replace(/^:|:$/g, "")}:`;
+      if (options.dryRun) {
+        return formatDryRun({
+          method: op === "react" ? "POST" : "DELETE",
+          path: `/stories/${storyId}/comments/${options.comment}/reactions`,
+          payload: { emoji },
+          targets: [
+            {
+              label: `sc-${storyId}: comment #${options.comment}`,
+              changes: [{ field: "reaction", after: op === "react" ? `+${emoji}` : `-${emoji}` }],
+            },
+          ],
+        });
+      }
+      if (op === "react") {
+        await client.addReaction(storyId, options.comment, emoji);
+        return `Reacted ${emoji} to comment #${options.comment} on sc-${storyId}`;
+      }
+      await client.removeReaction(storyId, options.comment, emoji);
+      return `Removed ${emoji} from comment #${options.comment} on sc-${storyId}`;
+    }
+
+    default:
+      throw new Error("op must be list, add, reply, edit, remove, react or unreact");
+  }
+}
+
+/**
+ * A comment the caller wrote; Shortcut only lets authors change their comments
+ */
+async function loadOwnComment(
+  client: ShortcutClient,
+  storyId: number,
+  commentId: number,
+  verb: string
+): Promise<ShortcutComment> {
+  const [comment, member] = await Promise.all([
+    client.getComment(storyId, commentId),
+    client.getCurrentMember(),
+  ]);
+  if (comment.deleted) throw new Error(`Comment #${commentId} on sc-${storyId} is already deleted`);
+  if (comment.author_id !== member.id) {
+    throw new Error(`You can only ${verb} your own comments; #${commentId} was written by someone else`);
+  }
+  return comment;
+}
+
+function mentionNotes(mentioned: ShortcutMember[], unknown: string[]): string[] {
+  return [
+    ...(mentioned.length > 0
+      ? [`Mentioned: ${mentioned.map((m) => `@${m.profile.mention_name}`).join(", ")}`]
+      : []),
+    ...(unknown.length > 0 ? [`Not a member, left as text: ${unknown.join(", ")}`] : []),
+  ];
+}
+
+/**
+ * List a story's files and links, upload a file to it, or add or remove an
+ * external link
+ */
+async function handleAttachment(
+  client: ShortcutClient,
+  id: string,
+  op: NonNullable<ShortcutParamsType["op"]>,
   options: {
-    type?: string;
-    estimate?: number;
-    epic?: number;
-    state?: string;
-    owner?: string;
+    file?: number;
+    filename?: string;
+    content?: string;
+    body?: string;
+    contentType?: string;
+    url?: string;
+    dryRun?: boolean;
+  }
+): Promise<string> {
+  const storyId = resolveId(id);
+  const story = await client.getStory(storyId);
+
+  switch (op) {
+    case "list":
+      return formatAttachments(story) || `No attachments on sc-${storyId}`;
+
+    case "add": {
+      if (options.url) return addExternalLink(client, story, checkUrl(options.url), options.dryRun);
+      if (!options.filename) throw new Error("filename (with content or body) or url required");
+
+      const blob = uploadBlob(options.filename, options);
+      if (options.dryRun) {
+        return formatDryRun({
+          method: "POST",
+          path: "/files",
+          payload: { story_id: storyId, file: { name: options.filename, size: blob.size, type: blob.type } },
+          targets: [
+            {
+              label: `sc-${storyId}: ${story.name}`,
+              changes: [{ field: "file", after: `${options.filename} (${formatBytes(blob.size)})` }],
+            },
+          ],
+        });
+      }
+      const file = await client.uploadFile(storyId, options.filename, blob);
+      return `Attached ${file.name} (${formatBytes(file.size)}) to sc-${storyId} as file ${file.id}\n${file.url}`;
+    }
+
+    case "remove": {
+      if (options.url) {
+        return removeExternalLink(client, story, options.url.trim(), options.dryRun);
+      }
+      if (!options.file) throw new Error("file or url required");
+
+      const file = story.files?.find((f) => f.id === options.file);
+      if (!file) throw new Error(`File ${options.file} is not attached to sc-${storyId}`);
+      if (options.dryRun) {
+        return formatDryRun({
+          method: "DELETE",
+          path: `/files/${file.id}`,
+          targets: [
+            {
+              label: `sc-${storyId}: ${story.name}`,
+              changes: [
+                { field: "file", before: `${file.name} (${formatBytes(file.size)})`, after: "(deleted)" },
+              ],
+            },
+          ],
+        });
+      }
+      await client.deleteFile(file.id, storyId);
+      return `Deleted file ${file.id} (${file.name}) from sc-${storyId}`;
+    }
+
+    default:
+      throw new Error("op must be list, add or remove");
+  }
+}
+
+/**
+ * The file to upload, from base64 content or text body
+ */
+function uploadBlob(
+  filename: string,
+  options: { content?: string; body?: string; contentType?: string }
+): Blob {
+  if (options.content === undefined && options.body === undefined) {
+    throw new Error("content (base64) or body (text) required");
+  }
+
+  const extension = filename.includes(".") ? filename.split(".").pop()!.toLowerCase() : "";
+  let bytes: Uint8Array | string;
+  if (options.content !== undefined) {
+    // Accepts a data: URL as well as bare base64
+    const base64 = options.content.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "");
+    let binary: string;
+    try {
+      binary = atob(base64);
+    } catch {
+      throw new Error("content must be base64; use body for text");
+    }
+    bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } else {
+    bytes = options.body!;
+  }
+
+  const type =
+    options.contentType ??
+    CONTENT_TYPES[extension] ??
+    (options.content === undefined ? "text/plain" : "application/octet-stream");
+  const blob = new Blob([bytes], { type });
+  if (blob.size > MAX_UPLOAD_BYTES) {
+    throw new Error(
+      `${filename} is ${formatBytes(blob.size)}; the most the attachment action uploads is ${formatBytes(MAX_UPLOAD_BYTES)}`
+    );
+  }
+  return blob;
+}
+
+function checkUrl(input: string): string {
+  const url = input.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`"${url}" is not a URL`);
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error("External links must be http or https URLs");
+  }
+  return url;
+}
+
+async function addExternalLink(
+  client: ShortcutClient,
+  story: ShortcutStory,
+  url: string,
+  dryRun?: boolean
+): Promise<string> {
+  const links = story.external_links ?? [];
+  if (links.includes(url)) return `sc-${story.id} already links ${url}`;
+  return updateExternalLinks(client, story, [...links, url], dryRun, `Linked ${url} from sc-${story.id}`);
+}
+
+async function removeExternalLink(
+  client: ShortcutClient,
+  story: ShortcutStory,
+  url: string,
+  dryRun?: boolean
+): Promise<string> {
+  const links = story.external_links ?? [];
+  if (!links.includes(url)) throw new Error(`sc-${story.id} has no external link ${url}`);
+  return updateExternalLinks(
+    client,
+    story,
+    links.filter((l) => l !== url),
+    dryRun,
+    `Removed ${url} from sc-${story.id}`
+  );
+}
+
+async function updateExternalLinks(
+  client: ShortcutClient,
+  story: ShortcutStory,
+  links: string[],
+  dryRun: boolean | undefined,
+  done: string
+): Promise<string> {
+  const input = { external_links: links };
+  if (dryRun) {
+    return formatDryRun({
+      method: "PUT",
+      path: `/stories/${story.id}`,
+      payload: input,
+      targets: [
+        {
+          label: `sc-${story.id}: ${story.name}`,
+          changes: [
+            {
+              field: "external_links",
+              before: story.external_links?.join(", ") || "none",
+              after: links.join(", ") || "none",
+            },
+          ],
+        },
+      ],
+    });
+  }
+  await client.updateStory(story.id, input, story);
+  return done;
+}
+
+/**
+ * Fetch the other side of each of a story's links
+ */
+async function loadLinkedStories(
+  client: ShortcutClient,
+  story: ShortcutStory
+): Promise<LinkedStory[]> {
+  const links = (story.story_links ?? []).map((l) => linkRelation(l, story.id));
+  if (links.length === 0) return [];
+
+  const fetched = await mapSettled(links, BATCH_CONCURRENCY, (l) => client.getStory(l.otherId));
+  return Promise.all(
+    links.map(async (l, i) => {
+      const r = fetched[i];
+      if (r.status === "rejected") return { relation: l.relation, id: l.otherId };
+      return {
+        relation: l.relation,
+        id: l.otherId,
+        name: r.value.name,
+        state: await client.getStateName(r.value.workflow_state_id),
+        completed: r.value.completed,
+      };
+    })
+  );
+}
+
+async function handleLink(
+  client: ShortcutClient,
+  id: string,
+  target: string,
+  verb: ShortcutParamsType["verb"],
+  op: "add" | "remove",
+  dryRun?: boolean
+): Promise<string> {
+  const storyId = resolveId(id);
+  const targetId = resolveId(target);
+
+  if (op === "remove") {
+    const story = await client.getStory(storyId);
+    const matches = (story.story_links ?? []).filter((l) => {
+      const { relation, otherId } = linkRelation(l, storyId);
+      return otherId === targetId && (!verb || relation === verb);
+    });
+    if (matches.length === 0) {
+      return `No ${verb ? `"${verb}" ` : ""}link between sc-${storyId} and sc-${targetId}`;
+    }
+
+    if (dryRun) {
+      return formatDryRun({
+        method: "DELETE",
+        path: matches.map((l) => `/story-links/${l.id}`).join(", "),
+        targets: matches.map((l) => ({
+          label: `Link ${l.id}`,
+          changes: [{ field: "link", after: `sc-${l.subject_id} ${l.verb} sc-${l.object_id}` }],
+        })),
+      });
+    }
+
+    for (const link of matches) await client.deleteStoryLink(link.id);
+    return `Removed ${matches.length} link(s) between sc-${storyId} and sc-${targetId}`;
+  }
+
+  if (!verb) throw new Error("verb required (blocks, blocked by, duplicates, relates to)");
+
+  // "blocked by" is "blocks" read the other way round
+  const [subjectId, objectId] = verb === "blocked by" ? [targetId, storyId] : [storyId, targetId];
+  const apiVerb: ShortcutLinkVerb = verb === "blocked by" ? "blocks" : verb;
+
+  if (dryRun) {
+    const [subject, object] = await Promise.all([
+      client.getStory(subjectId),
+      client.getStory(objectId),
+    ]);
+    return formatDryRun({
+      method: "POST",
+      path: "/story-links",
+      payload: { subject_id: subjectId, object_id: objectId, verb: apiVerb },
+      targets: [
+        {
+          label: "New link",
+          changes: [
+            { field: "subject", after: `sc-${subjectId}: ${subject.name}` },
+            { field: "verb", after: apiVerb },
+            { field: "object", after: `sc-${objectId}: ${object.name}` },
+          ],
+        },
+      ],
+    });
+  }
+
+  await client.createStoryLink(subjectId, objectId, apiVerb);
+  return `Linked: sc-${storyId} ${verb} sc-${targetId}`;
+}
+
+type TaskOp = NonNullable<ShortcutParamsType["op"]>;
+
+async function handleTask(
+  client: ShortcutClient,
+  id: string,
+  op: TaskOp,
+  options: {
+    task?: number | string;
+    body?: string;
+    owner?: string | null;
+    position?: number;
+  },
+  dryRun?: boolean
+): Promise<string> {
+  const storyId = resolveId(id);
+  const story = await client.getStory(storyId);
+  const tasks = sortTasks(story.tasks ?? []);
+
+  let method: string;
+  let path: string;
+  let payload: Record<string, unknown> | undefined;
+  let label: string;
+  let summary: string;
+  // The task being changed; undefined when adding one
+  let taskId: number | undefined;
+
+  if (op === "add") {
+    if (!options.body) throw new Error("body required");
+    payload = { description: options.body };
+    if (options.owner) payload.owner_ids = await resolveMemberIds(client, [options.owner]);
+    method = "POST";
+    path = `/stories/${storyId}/tasks`;
+    label = `New task on sc-${storyId}`;
+    summary = `Added task to sc-${storyId}`;
+  } else {
+    if (options.task === undefined) {
+      throw new Error("task required (checklist number or task text)");
+    }
+    const task = findTask(tasks, options.task);
+    const number = tasks.indexOf(task) + 1;
+    taskId = task.id;
+    method = "PUT";
+    path = `/stories/${storyId}/tasks/${task.id}`;
+    label = `Task ${number} on sc-${storyId}: ${task.description}`;
+
+    switch (op) {
+      case "complete":
+      case "uncomplete":
+        payload = { complete: op === "complete" };
+        summary = `Marked task ${number} ${op === "complete" ? "complete" : "incomplete"}`;
+        break;
+
+      case "edit":
+        payload = {};
+        if (options.body) payload.description = options.body;
+        if (options.owner !== undefined) {
+          payload.owner_ids =
+            options.owner === null ? [] : await resolveMemberIds(client, [options.owner]);
+        }
+        if (Object.keys(payload).length === 0) throw new Error("body or owner required");
+        summary = `Edited task ${number}`;
+        break;
+
+      case "move":
+        if (!options.position) throw new Error("position required");
+        payload = taskMovePayload(tasks, task, options.position);
+        summary = `Moved task ${number} to position ${options.position}`;
+        break;
+
+      case "remove":
+        method = "DELETE";
+        summary = `Deleted task ${number}`;
+        break;
+
+      default:
+        throw new Error("op must be one of: add, complete, uncomplete, edit, move, remove");
+    }
+  }
+
+  if (dryRun) {
+    return formatDryRun({
+      method,
+      path,
+      payload,
+      targets: [{ label, changes: await describePayload(client, payload ?? {}) }],
+    });
+  }
+
+  if (taskId === undefined) await client.createTask(storyId, payload!);
+  else if (method === "DELETE") await client.deleteTask(storyId, taskId);
+  else await client.updateTask(storyId, taskId, payload!);
+
+  const updated = await client.getStory(storyId);
+  return `${summary} on sc-${storyId}\n\n${formatTasks(updated.tasks ?? [])}`;
+}
+
+/**
+ * Find a task by checklist number or by its text
+ */
+function findTask(tasks: ShortcutTask[], input: number | string): ShortcutTask {
+  if (typeof input === "number" || /^\d+$/.test(input)) {
+    const task = tasks[Number(input) - 1];
+    if (!task) throw new Error(`No task ${input} (story has ${tasks.length} tasks)`);
+    return task;
+  }
+
+  const task = resolveTaskMatch(tasks, input);
+  if (!task) {
+    throw new ResolutionError("task", input, closeMatches(input, tasks.map((t) => t.description)));
   }
+  return task;
+}
+
+/**
+ * before_id/after_id that put a task at a 1-based checklist position
+ */
+function taskMovePayload(
+  tasks: ShortcutTask[],
+  task: ShortcutTask,
+  position: number
+): Record<string, unknown> {
+  const others = tasks.filter((t) => t.id !== task.id);
+  if (others.length === 0) throw new Error("Story has only one task");
+  if (position <= others.length) return { before_id: others[position - 1].id };
+  return { after_id: others[others.length - 1].id };
+}
+
+async function handleCreate(
+  client: ShortcutClient,
+  options: StoryFields & {
+    name: string;
+    state?: string;
+    workflow?: string;
+    team?: string;
+  },
+  dryRun?: boolean
 ): Promise<string> {
-  const input: Record<string, unknown> = { name };
+  const input: Record<string, unknown> = {};
+
+  const workflow = await resolveCreateWorkflow(client, options.workflow, options.team, input);
 
   if (options.state) {
-    const stateId = await client.resolveState(options.state);
-    if (stateId) input.workflow_state_id = stateId;
+    const stateId = await client.resolveState(options.state, workflow?.id);
+    if (!stateId) {
+      const allStates = await client.getAllStateNames(workflow?.id);
+      throw new Error(`State "${options.state}" not found. Valid: ${allStates.join(", ")}`);
+    }
+    input.workflow_state_id = stateId;
   } else {
-    // Default to first unstarted state
-    const workflows = await client.getWorkflows();
-    if (workflows.length > 0) {
-      const readyState = workflows[0].states.find((s) => s.type === "unstarted");
-      if (readyState) input.workflow_state_id = readyState.id;
+    // Default to the workflow's default state (first workflow if none chosen)
+    const target = workflow ?? (await client.getWorkflows())[0];
+    if (target) {
+      const defaultState =
+        target.states.find((s) => s.id === target.default_state_id) ??
+        target.states.find((s) => s.type === "unstarted");
+      if (defaultState) input.workflow_state_id = defaultState.id;
     }
   }
 
-  if (options.type) input.story_type = options.type;
-  if (options.estimate !== undefined) input.estimate = options.estimate;
-  if (options.epic) input.epic_id = options.epic;
+  // A new story has nothing to remove from, so add/remove become plain lists
+  Object.assign(input, materializeDeltas(undefined, await buildFieldsInput(client, options)));
 
-  if (options.owner) {
-    const memberId = await client.resolveMember(options.owner);
-    if (memberId) input.owner_ids = [memberId];
+  if (dryRun) {
+    return formatDryRun({
+      method: "POST",
+      path: "/stories",
+      payload: input,
+      targets: [{ label: "New story", changes: await describePayload(client, input) }],
+    });
   }
 
   const story = await client.createStory(input);
-  return `Created sc-${story.id}: ${story.name}\n${story.app_url}`;
+  if (options.createLabels) await client.invalidate("labels");
+  const stateName = await client.getStateName(story.workflow_state_id);
+  return `Created sc-${story.id}: ${story.name}\nState: ${stateName}\n${story.app_url}`;
 }
 
-async function handleEpic(client: ShortcutClient, id: string): Promise<string> {
+/**
+ * Pick the workflow for a new story from `workflow` or `team`.
+ * A team also becomes the story's group.
+ */
+async function resolveCreateWorkflow(
+  client: ShortcutClient,
+  workflowName: string | undefined,
+  teamName: string | undefined,
+  input: Record<string, unknown>
+): Promise<ShortcutWorkflow | undefined> {
+  let workflow: ShortcutWorkflow | undefined;
+
+  if (workflowName) {
+    workflow = (await client.resolveWorkflow(workflowName)) ?? undefined;
+    if (!workflow) {
+      const names = (await client.getWorkflows()).map((wf) => wf.name);
+      throw new ResolutionError("workflow", workflowName, closeMatches(workflowName, names));
+    }
+  }
+
+  if (teamName) {
+    const group = await client.resolveGroup(teamName);
+    if (!group) {
+      const names = (await client.getGroups()).map((g) => g.name);
+      throw new ResolutionError("team", teamName, closeMatches(teamName, names));
+    }
+    input.group_id = group.id;
+
+    const teamWorkflowIds = group.workflow_ids ?? [];
+    if (workflow && teamWorkflowIds.length > 0 && !teamWorkflowIds.includes(workflow.id)) {
+      throw new Error(`Workflow "${workflow.name}" is not used by team "${group.name}"`);
+    }
+    if (!workflow) {
+      const workflowId = group.default_workflow_id ?? teamWorkflowIds[0];
+      const workflows = await client.getWorkflows();
+      workflow = workflows.find((wf) => wf.id === workflowId);
+    }
+  }
+
+  return workflow;
+}
+
+async function handleEpic(
+  client: ShortcutClient,
+  id: string,
+  paging: Paging,
+  graph?: "markdown" | "mermaid",
+  output?: OutputOptions,
+  budget: Budget = {}
+): Promise<string> {
   const epicId = resolveId(id);
   const epic = await client.getEpic(epicId);
   if (!epic) return `Epic ${epicId} not found`;
 
-  let result = formatEpic(epic);
+  if (budget.section) {
+    const section = findSection(epic.description ?? "", budget.section);
+    return `Epic ${epicId} description, section ${section.number}:\n\n${section.text}`;
+  }
 
-  const stories = await client.searchStories({ epic_ids: [epicId] });
-  if (stories.length > 0) {
-    result += "\n\n## Stories\n" + formatStoryList(stories.slice(0, 25));
+  if (output && !graph) {
+    const page = await fetchStories(client, `epic:${epicId}`, paging);
+    const names = await resolveStoryNames(client, page.stories);
+    const progress = epicProgress(epic);
+    const summary = {
+      id: epic.id,
+      name: epic.name,
+      state: epic.state,
+      progress: Math.round(progress.ratio * 100),
+      deadline: epic.deadline?.slice(0, 10) ?? null,
+      at_risk: progress.atRisk,
+      url: epic.app_url,
+    };
+    const nextCall = { action: "epic", id: String(epicId), ...outputParams(output) };
+    const stories = renderStoryPage(page, names, output, nextCall, paging.all, { epic: summary });
+    if (output.format === "json") return stories;
+    return `Epic ${epic.id}: ${epic.name} [${epic.state}] ${summary.progress}%\n\n${stories}`;
+  }
+
+  if (graph) {
+    const { stories } = await client.searchStoriesPaged(`epic:${epicId}`, MAX_SEARCH_RESULTS);
+    return formatEpic(epic) + "\n\n## Dependencies\n" + (await renderEpicGraph(client, stories, graph));
+  }
+
+  const page = await fetchStories(client, `epic:${epicId}`, paging);
+  const names = await resolveStoryNames(client, page.stories);
+  const rows = page.stories.length > 0 ? formatStoryList(page.stories, names).split("\n") : [];
+  const call = (part: Record<string, unknown>) =>
+    JSON.stringify({ action: "epic", id: String(epicId), ...part });
+
+  // The header is always shown; the description and story list share what's left
+  let left = tokenBudget(budget.maxTokens, budget.detail) - estimateTokens(formatEpic(epic, ""));
+  const rowTokens = estimateTokens(rows.join("\n"));
+  const descriptionBudget = Math.max(left - Math.min(rowTokens, left * STORY_LIST_BUDGET_SHARE), 0);
+  const description = epic.description
+    ? fitDescription(
+        epic.description,
+        descriptionBudget,
+        (n) => call({ section: String(n) }),
+        call({ detail: "full" })
+      )
+    : undefined;
+  left -= description ? estimateTokens(description) : 0;
+
+  let result = formatEpic(epic, description);
+  if (rows.length > 0) {
+    const shown: string[] = [];
+    for (const row of rows) {
+      left -= estimateTokens(row);
+      if (left < 0 && shown.length > 0) break;
+      shown.push(row);
+    }
+    result += "\n\n## Stories\n" + shown.join("\n");
+    if (shown.length < rows.length) {
+      const hidden = page.stories.slice(shown.length).map((s) => `sc-${s.id}`);
+      result += `\n_${hidden.length} more on this page not shown to fit the token budget: ${hidden.join(", ")}. Use "format": "compact" or raise maxTokens to list them._`;
+    }
+    result += formatPageFooter(page, { action: "epic", id: String(epicId) }, paging.all);
   }
 
   return result;
 }
 
+/**
+ * Epic fields from tool params
+ */
+function epicFields(params: ShortcutParamsType): EpicFields {
+  return {
+    name: params.name,
+    description: params.description,
+    state: params.state,
+    owners: params.owners,
+    addOwners: params.addOwners,
+    removeOwners: params.removeOwners,
+    deadline: params.deadline,
+    objective: params.objective,
+  };
+}
+
+async function handleEpicCreate(
+  client: ShortcutClient,
+  fields: EpicFields,
+  dryRun?: boolean
+): Promise<string> {
+  const input = materializeDeltas(undefined, await buildEpicInput(client, fields));
+
+  if (dryRun) {
+    return formatDryRun({
+      method: "POST",
+      path: "/epics",
+      payload: input,
+      targets: [{ label: "New epic", changes: await describePayload(client, input) }],
+    });
+  }
+
+  const epic = await client.createEpic(input);
+  return `Created Epic ${epic.id}: ${epic.name}\n${epic.app_url}`;
+}
+
+async function handleEpicUpdate(
+  client: ShortcutClient,
+  id: string,
+  fields: EpicFields,
+  dryRun?: boolean
+): Promise<string> {
+  const epicId = resolveId(id);
+  const resolved = await buildEpicInput(client, fields);
+  if (Object.keys(resolved).length === 0) return "No updates provided";
+
+  const current = hasDeltas(resolved) || dryRun ? await client.getEpic(epicId) : undefined;
+  const input = materializeDeltas(current, resolved);
+
+  if (dryRun && current) {
+    return formatDryRun({
+      method: "PUT",
+      path: `/epics/${epicId}`,
+      payload: input,
+      targets: [
+        {
+          label: `Epic ${epicId}: ${current.name}`,
+          changes: await diffStory(client, current, input),
+        },
+      ],
+    });
+  }
+
+  const epic = await client.updateEpic(epicId, input);
+  return `Updated Epic ${epic.id}: ${epic.app_url}`;
+}
+
+/**
+ * Move stories into (add) or out of (remove) an epic
+ */
+async function handleEpicStories(
+  client: ShortcutClient,
+  id: string,
+  ids: string[],
+  op: "add" | "remove",
+  dryRun?: boolean
+): Promise<string> {
+  const epicId = resolveId(id);
+  const epic = await client.getEpic(epicId);
+  const storyIds = [...new Set(ids.map(resolveId))];
+  if (storyIds.length === 0) throw new Error("ids must list at least one story");
+  if (storyIds.length > MAX_BATCH_SIZE) {
+    throw new Error(`At most ${MAX_BATCH_SIZE} stories per batch (got ${storyIds.length})`);
+  }
+
+  const input = { epic_id: op === "add" ? epicId : null };
+
+  const fetched = await mapSettled(storyIds, BATCH_CONCURRENCY, (storyId) =>
+    client.getStory(storyId)
+  );
+  const stories = new Map<number, ShortcutStory>();
+  const skipped: BatchOutcome[] = [];
+  fetched.forEach((r, i) => {
+    if (r.status === "rejected") {
+      skipped.push({ id: storyIds[i], ok: false, error: errorMessage(r.reason) });
+    } else if (op === "remove" && r.value.epic_id !== epicId) {
+      // Clearing epic_id here would detach the story from whichever epic it is in
+      const where = r.value.epic_id ? `in Epic ${r.value.epic_id}` : "in no epic";
+      skipped.push({ id: storyIds[i], ok: false, error: `not in Epic ${epicId} (${where})` });
+    } else {
+      stories.set(storyIds[i], r.value);
+    }
+  });
+  const targetIds = storyIds.filter((storyId) => stories.has(storyId));
+
+  if (dryRun) {
+    const plan = formatDryRun(await planBatchUpdate(client, targetIds, input, stories));
+    if (skipped.length === 0) return plan;
+    return [plan, "", "Skipped:", ...skipped.map((o) => `- sc-${o.id}: ${o.error}`)].join("\n");
+  }
+
+  const outcomes =
+    targetIds.length > 0 ? await applyBatchUpdate(client, targetIds, input, stories) : [];
+  const verb = op === "add" ? `Moved into Epic ${epic.id}` : `Removed from Epic ${epic.id}`;
+  return formatBatchResult(verb, [...outcomes, ...skipped]);
+}
+
+async function handleObjective(
+  client: ShortcutClient,
+  id?: string,
+  output?: OutputOptions
+): Promise<string> {
+  if (!id) {
+    const objectives = await client.getObjectives();
+    if (!output) return formatObjectiveList(objectives);
+    const fields = selectFields(OBJECTIVE_COLUMNS, output.fields, Object.keys(OBJECTIVE_COLUMNS));
+    const records = toRecords(objectives, OBJECTIVE_COLUMNS, fields);
+    return output.format === "json"
+      ? JSON.stringify(records)
+      : renderRows(records, fields, output.format);
+  }
+
+  const objective = await client.resolveObjective(id);
+  if (!objective) {
+    const names = (await client.getObjectives()).map((o) => o.name);
+    throw new ResolutionError("objective", id, closeMatches(id, names));
+  }
+
+  const epics = await client.getObjectiveEpics(objective.id);
+  return formatObjective(objective, epics);
+}
+
+/**
+ * Blocking graph for an epic's stories, including blockers outside the epic
+ */
+async function renderEpicGraph(
+  client: ShortcutClient,
+  stories: ShortcutStory[],
+  mode: "markdown" | "mermaid"
+): Promise<string> {
+  const inEpic = new Set(stories.map((s) => s.id));
+  const outsideIds = [
+    ...new Set(
+      stories.flatMap((s) =>
+        (s.story_links ?? [])
+          .filter((l) => l.verb === "blocks")
+          .map((l) => linkRelation(l, s.id).otherId)
+          .filter((otherId) => !inEpic.has(otherId))
+      )
+    ),
+  ];
+
+  const fetched = await mapSettled(outsideIds, BATCH_CONCURRENCY, (storyId) =>
+    client.getStory(storyId)
+  );
+  const external = fetched.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+
+  const workflows = await client.getWorkflows();
+  const stateNames = new Map(workflows.flatMap((wf) => wf.states.map((st) => [st.id, st.name])));
+
+  const graph = buildDependencyGraph(stories, external, stateNames);
+  return mode === "mermaid" ? renderGraphMermaid(graph) : renderGraphMarkdown(graph);
+}
+
+/**
+ * Conventional branch name for a story, plus its existing branches and PRs
+ */
+async function handleBranch(client: ShortcutClient, id: string): Promise<string> {
+  const storyId = resolveId(id);
+  const story = await client.getStory(storyId);
+  if (!story) return `Story sc-${storyId} not found`;
+
+  let name = story.formatted_vcs_branch_name;
+  if (!name) {
+    const member = await client.getCurrentMember();
+    name = `${member.profile.mention_name}/sc-${story.id}/${slugify(story.name)}`;
+  }
+
+  const lines = [`Branch for sc-${story.id}: \`${name}\``, `git checkout -b ${name}`];
+  const vcs = formatVcs(story);
+  if (vcs) lines.push("", vcs);
+  return lines.join("\n");
+}
+
+function slugify(text: string, maxLength = 50): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug.slice(0, maxLength).replace(/-+$/, "") || "story";
+}
+
+async function handleWhoami(client: ShortcutClient, session: AuthSession): Promise<string> {
+  const member = await client.getCurrentMember();
+  return [
+    `**${member.profile.name}** (@${member.profile.mention_name})`,
+    `Member ID: ${member.id} | Role: ${member.role}`,
+    `Workspace: ${member.workspace2?.url_slug ?? "?"}`,
+    `Auth: ${session.mode === "oauth" ? `OAuth (client ${session.clientId})` : "X-Shortcut-Token header"}`,
+  ].join("\n");
+}
+
+/**
+ * Revoke the stored token for this client (or every client with `all`)
+ */
+async function handleLogout(
+  env: Env,
+  session: AuthSession,
+  all?: boolean
+): Promise<string> {
+  if (session.mode !== "oauth" || !session.userId || !env.OAUTH_PROVIDER) {
+    throw new Error(
+      "Nothing stored to revoke: this connection uses the X-Shortcut-Token header. Revoke the token in Shortcut under Settings → API Tokens."
+    );
+  }
+
+  const clientId = all ? undefined : session.clientId;
+  const revoked = await revokeGrants(env.OAUTH_PROVIDER, session.userId, clientId);
+  return `Revoked ${revoked} grant${revoked === 1 ? "" : "s"}. Reconnect to authorize again.`;
+}
+
+/**
+ * Writes made through this server, by story, member or time range
+ */
+async function handleAudit(
+  client: ShortcutClient,
+  env: Env,
+  options: { id?: string; member?: string; since?: string; until?: string; limit?: number }
+): Promise<string> {
+  if (!env.AUDIT) throw new Error("Audit log is not enabled on this server (needs the AUDIT Durable Object)");
+
+  const member = await client.getCurrentMember();
+  const workspace = member.workspace2?.url_slug ?? "default";
+
+  const storyId = options.id ? resolveId(options.id) : undefined;
+  const memberId = options.member ? (await resolveMemberIds(client, [options.member]))[0] : undefined;
+  const since = options.since ? parseTime(options.since, "since") : undefined;
+  const until = options.until ? parseTime(options.until, "until") : undefined;
+  const limit = Math.min(options.limit ?? DEFAULT_LIMIT, MAX_ACTIVITY_EVENTS);
+
+  const entries = await auditLog(env, workspace).query({ storyId, memberId, since, until, limit });
+
+  const members = await client.getMembers();
+  const workflows = await client.getWorkflows();
+  return formatAuditLog(
+    entries,
+    new Map(members.map((m) => [m.id, m.profile.mention_name])),
+    new Map(workflows.flatMap((wf) => wf.states.map((st) => [st.id, st.name])))
+  );
+}
+
+/**
+ * Revert the caller's most recent story update or create, or the audit entry given by id
+ */
+async function handleUndo(
+  client: ShortcutClient,
+  env: Env,
+  session: AuthSession,
+  id?: string,
+  dryRun?: boolean
+): Promise<string> {
+  if (!env.AUDIT) throw new Error("Undo needs the audit log, which is not enabled on this server");
+
+  const member = await client.getCurrentMember();
+  const log = auditLog(env, member.workspace2?.url_slug ?? "default");
+
+  let entry: AuditEntry;
+  if (id) {
+    const entryId = Number(id.replace(/^#/, ""));
+    if (!Number.isInteger(entryId)) {
+      throw new Error(`Invalid audit entry "${id}"; use the # number from the audit action`);
+    }
+    const found: AuditEntry[] = await log.query({ id: entryId, limit: 1 });
+    if (found.length === 0) throw new Error(`No audit entry #${entryId}`);
+    entry = found[0];
+    if (entry.undone_at) throw new Error(`#${entryId} was already undone at ${entry.undone_at}`);
+    if (!isUndoable(entry)) {
+      throw new Error(
+        `#${entryId} (${entry.method} ${entry.path}) can't be undone; only successful story updates and creates can`
+      );
+    }
+  } else {
+    const found: AuditEntry[] = await log.query({
+      tokenFingerprint: session.tokenFingerprint,
+      undoable: true,
+      limit: 1,
+    });
+    if (found.length === 0) return "Nothing to undo: no story updates or creates made with your token.";
+    entry = found[0];
+  }
+
+  const header = `Undo #${entry.id}: ${entry.action} by @${entry.member_name} at ${entry.occurred_at} (${entry.method} ${entry.path})`;
+
+  if (isStoryCreate(entry)) {
+    const storyId = entry.story_ids[0];
+    const story = await client.getStory(storyId);
+    if (story.archived) return `${header}\nsc-${storyId} is already archived.`;
+
+    const warning = changedSince(story, entry)
+      ? `Warning: sc-${storyId} was changed after it was created; archiving it anyway.`
+      : undefined;
+    if (dryRun) {
+      return [
+        formatDryRun({
+          method: "PUT",
+          path: `/stories/${storyId}`,
+          payload: { archived: true },
+          targets: [{ label: `sc-${storyId}: ${story.name}`, changes: [{ field: "archived", before: "false", after: "true" }] }],
+        }),
+        ...(warning ? ["", warning] : []),
+      ].join("\n");
+    }
+
+    await client.updateStory(storyId, { archived: true }, story);
+    await log.markUndone(entry.id);
+    return [header, `Archived sc-${storyId}: ${story.name}`, ...(warning ? [warning] : [])].join("\n");
+  }
+
+  const byStory = new Map<number, AuditChange[]>();
+  for (const change of entry.changes) {
+    byStory.set(change.story_id, [...(byStory.get(change.story_id) ?? []), change]);
+  }
+  const storyIds = [...byStory.keys()];
+  const fetched = await mapSettled(storyIds, BATCH_CONCURRENCY, (storyId) => client.getStory(storyId));
+
+  const outcomes: BatchOutcome[] = [];
+  const warnings: string[] = [];
+  const plans: StoryUndo[] = [];
+  const current = new Map<number, ShortcutStory>();
+  fetched.forEach((r, i) => {
+    if (r.status === "rejected") {
+      outcomes.push({ id: storyIds[i], ok: false, error: errorMessage(r.reason) });
+      return;
+    }
+    current.set(storyIds[i], r.value);
+    const plan = planStoryUndo(storyIds[i], byStory.get(storyIds[i])!, r.value);
+    for (const change of plan.conflicts) {
+      warnings.push(`Warning: sc-${plan.storyId} ${change.field} changed again since #${entry.id}; left as it is`);
+    }
+    for (const change of plan.skipped) {
+      warnings.push(`sc-${plan.storyId} ${change.field} can't be undone; left as it is`);
+    }
+    for (const change of plan.unknown) {
+      warnings.push(`sc-${plan.storyId} ${change.field} was not recorded before #${entry.id}; left as it is`);
+    }
+    plans.push(plan);
+  });
+
+  const toApply = plans.filter((p) => Object.keys(p.input).length > 0);
+
+  if (dryRun) {
+    return [
+      ...toApply.map((plan) =>
+        formatDryRun({
+          method: "PUT",
+          path: `/stories/${plan.storyId}`,
+          payload: plan.input,
+          targets: [
+            {
+              label: `sc-${plan.storyId}: ${current.get(plan.storyId)!.name}`,
+              changes: plan.reverted.map((c) => ({
+                field: c.field,
+                before: JSON.stringify(c.after),
+                after: JSON.stringify(c.before),
+              })),
+            },
+          ],
+        })
+      ),
+      ...(toApply.length === 0 ? ["Nothing can be reverted."] : []),
+      ...(warnings.length > 0 ? ["", ...warnings] : []),
+    ].join("\n\n");
+  }
+
+  const results = await mapSettled(toApply, BATCH_CONCURRENCY, (plan) =>
+    client.updateStory(plan.storyId, plan.input, current.get(plan.storyId))
+  );
+  results.forEach((r, i) =>
+    outcomes.push(
+      r.status === "fulfilled"
+        ? { id: toApply[i].storyId, ok: true }
+        : { id: toApply[i].storyId, ok: false, error: errorMessage(r.reason) }
+    )
+  );
+
+  // Partially failed undos stay undoable so they can be retried
+  if (outcomes.length > 0 && outcomes.every((o) => o.ok)) await log.markUndone(entry.id);
+
+  return [
+    header,
+    outcomes.length > 0 ? formatBatchResult("Reverted", outcomes) : "Nothing was reverted.",
+    ...(warnings.length > 0 ? ["", ...warnings] : []),
+  ].join("\n");
+}
+
+/**
+ * Recent webhook events for a story, an epic or the whole workspace
+ */
+async function handleActivity(
+  client: ShortcutClient,
+  env: Env,
+  options: { id?: string; epic?: number | null; since?: string; limit?: number }
+): Promise<string> {
+  if (!env.ACTIVITY || !env.SHORTCUT_WEBHOOK_SECRET) {
+    throw new Error(
+      "Activity is not enabled on this server. It needs the ACTIVITY Durable Object and a SHORTCUT_WEBHOOK_SECRET receiving Shortcut webhooks at /webhooks/shortcut."
+    );
+  }
+
+  const member = await client.getCurrentMember();
+  const workspace = member.workspace2?.url_slug;
+  if (!workspace) throw new Error("Could not determine your workspace");
+
+  let storyIds: number[] | undefined;
+  let epicId: number | undefined;
+  if (options.id) storyIds = [resolveId(options.id)];
+  if (options.epic !== undefined && options.epic !== null) {
+    // Events carry the epic only when the webhook included it; also match its current stories
+    epicId = options.epic;
+    const page = await client.searchStoriesPaged(`epic:${epicId}`, MAX_SEARCH_RESULTS);
+    storyIds = [...(storyIds ?? []), ...page.stories.map((s) => s.id)];
+  }
+
+  const since = options.since ? parseTime(options.since, "since") : undefined;
+  const limit = Math.min(options.limit ?? DEFAULT_LIMIT, MAX_ACTIVITY_EVENTS);
+  const events = await activityStore(env, workspace).query({ storyIds, epicId, since, limit });
+
+  const members = await client.getMembers();
+  const mentions = new Map(members.map((m) => [m.id, m.profile.mention_name]));
+  return formatActivity(events, mentions);
+}
+
+/**
+ * "today", "yesterday", "24h", "7d", "30m" (that long ago), a date or an ISO timestamp
+ */
+function parseTime(value: string, param: string, now = new Date()): string {
+  const startOfToday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if (value === "today") return new Date(startOfToday).toISOString();
+  if (value === "yesterday") return new Date(startOfToday - 86400000).toISOString();
+
+  const relative = value.match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const unit = { m: 60000, h: 3600000, d: 86400000 }[relative[2] as "m" | "h" | "d"];
+    return new Date(now.getTime() - Number(relative[1]) * unit).toISOString();
+  }
+
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${param} "${value}". Use today, yesterday, 24h, 7d, YYYY-MM-DD or an ISO timestamp.`);
+  }
+  return date.toISOString();
+}
+
+async function handleIteration(
+  client: ShortcutClient,
+  id: string,
+  op: ShortcutParamsType["op"],
+  options: Paging & { dryRun?: boolean },
+  output?: OutputOptions,
+  policies: NamedPolicy[] = []
+): Promise<string> {
+  if (op === "list") {
+    const iterations = await client.getIterations();
+    const sorted = [...iterations].sort((a, b) => b.start_date.localeCompare(a.start_date));
+    const limit = options.all ? sorted.length : options.limit ?? DEFAULT_LIMIT;
+    if (!output) return formatIterationList(sorted.slice(0, limit));
+
+    const fields = selectFields(ITERATION_COLUMNS, output.fields, Object.keys(ITERATION_COLUMNS));
+    const records = toRecords(sorted.slice(0, limit), ITERATION_COLUMNS, fields);
+    return output.format === "json"
+      ? JSON.stringify(records)
+      : renderRows(records, fields, output.format);
+  }
+
+  const iteration = await client.resolveIteration(id);
+  if (!iteration) {
+    const names = (await client.getIterations()).map((i) => i.name);
+    throw new ResolutionError("iteration", id, closeMatches(id, names));
+  }
+
+  const stories = await client.getIterationStories(iteration.id);
+
+  if (op === "rollover") {
+    const next = nextIteration(await client.getIterations(), iteration);
+    if (!next) throw new Error(`No iteration after ${iteration.name}`);
+
+    const unfinished = stories.filter((s) => !s.completed).map((s) => s.id);
+    if (unfinished.length === 0) return `No unfinished stories in ${iteration.name}`;
+    enforceBatchSize(policies, unfinished.length);
+
+    const input = { iteration_id: next.id };
+    if (options.dryRun) {
+      return formatDryRun({
+        method: "PUT",
+        path: "/stories/bulk",
+        payload: { ...input, story_ids: unfinished },
+        targets: stories
+          .filter((s) => !s.completed)
+          .map((s) => ({
+            label: `sc-${s.id}: ${s.name}`,
+            changes: [{ field: "iteration", before: iteration.name, after: next.name }],
+          })),
+      });
+    }
+
+    const outcomes: BatchOutcome[] = [];
+    for (let i = 0; i < unfinished.length; i += MAX_BATCH_SIZE) {
+      const chunk = unfinished.slice(i, i + MAX_BATCH_SIZE);
+      // A failed chunk must not hide the stories earlier chunks moved
+      try {
+        outcomes.push(...(await applyBatchUpdate(client, chunk, input, new Map())));
+      } catch (error) {
+        outcomes.push(...chunk.map((id) => failedWrite(id, error)));
+      }
+    }
+    return `Rollover ${iteration.name} -> ${next.name}\n` + formatBatchResult("Moved", outcomes);
+  }
+  if (op) throw new Error("op must be list or rollover");
+
+  const workflows = await client.getWorkflows();
+  const stateTypes = new Map(workflows.flatMap((wf) => wf.states.map((st) => [st.id, st.type])));
+  const names = await resolveStoryNames(client, stories);
+  const summary = summarizeIteration(iteration, stories, stateTypes);
+  if (!output) return formatIteration(iteration, summary, names);
+
+  const fields = selectListFields(output.fields, [...STORY_LIST_FIELDS, "status"]);
+  const records = toRecords(stories, STORY_LIST_COLUMNS, fields, names);
+  const points = {
+    committed: summary.committed,
+    completed: summary.completed,
+    remaining: summary.remaining,
+  };
+  if (output.format === "json") {
+    const [details] = toRecords([iteration], ITERATION_COLUMNS, Object.keys(ITERATION_COLUMNS));
+    return JSON.stringify({ iteration: { ...details, points }, stories: records });
+  }
+  return (
+    `Iteration ${iteration.id}: ${iteration.name} [${iteration.status}] ` +
+    `${points.completed}/${points.committed} pts done\n\n` +
+    renderRows(records, fields, output.format)
+  );
+}
+
+/**
+ * First iteration starting after the given one ends
+ */
+function nextIteration(
+  iterations: ShortcutIteration[],
+  iteration: ShortcutIteration
+): ShortcutIteration | undefined {
+  return iterations
+    .filter((i) => i.id !== iteration.id && i.status !== "done")
+    .filter((i) => i.start_date >= iteration.end_date)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))[0];
+}
+
 async function handleApi(
   client: ShortcutClient,
   method: string,
-  path: string,
-  body?: Record<string, unknown>
+  rawPath: string,
+  body?: Record<string, unknown>,
+  dryRun?: boolean
 ): Promise<string> {
-  if (!path.startsWith("/")) throw new Error("Path must start with /");
-  const result = await client.request(method.toUpperCase(), path, body);
+  if (!rawPath.startsWith("/")) throw new Error("Path must start with /");
+  // The path the access policy checked, and the one fetch would send anyway
+  const path = resolveApiPath(rawPath);
+  const httpMethod = method.toUpperCase();
+
+  // Story updates are previewed and sent like the update action's, so dry
+  // runs show a diff and the audit log records the changed fields
+  const storyPath = /^\/stories\/(\d+)\/?$/.exec(path);
+  const storyUpdate = httpMethod === "PUT" && body && storyPath;
+  let bulk: { ids: number[]; data: Record<string, unknown> } | undefined;
+  if (httpMethod === "PUT" && /^\/stories\/bulk\/?$/.test(path) && body) {
+    const { story_ids, ...data } = body;
+    if (Array.isArray(story_ids)) bulk = { ids: story_ids as number[], data };
+  }
+
+  if (dryRun) {
+    const plan = { method: httpMethod, path, payload: body };
+    if (storyUpdate) {
+      const story = await client.getStory(Number(storyPath[1]));
+      return formatDryRun({
+        ...plan,
+        targets: [
+          { label: `sc-${story.id}: ${story.name}`, changes: await diffStory(client, story, body) },
+        ],
+      });
+    }
+    if (bulk) {
+      const { ids, data } = bulk;
+      const fetched = await mapSettled(ids, BATCH_CONCURRENCY, (id) => client.getStory(id));
+      const targets = await Promise.all(
+        fetched.map(async (r, i) =>
+          r.status === "fulfilled"
+            ? {
+                label: `sc-${r.value.id}: ${r.value.name}`,
+                changes: await diffStory(client, r.value, data),
+              }
+            : { label: `sc-${ids[i]}`, changes: [{ field: "error", after: errorMessage(r.reason) }] }
+        )
+      );
+      return formatDryRun({ ...plan, targets });
+    }
+    return [
+      formatDryRun({ ...plan, targets: [] }),
+      "",
+      "No before/after diff: only PUT /stories/{id} and PUT /stories/bulk are compared with the current stories.",
+    ].join("\n");
+  }
+
+  if (storyUpdate) {
+    const story = await client.updateStory(Number(storyPath[1]), body);
+    return JSON.stringify(story, null, 2);
+  }
+  if (bulk) {
+    const stories = await client.bulkUpdateStories(bulk.ids, bulk.data);
+    return JSON.stringify(stories, null, 2);
+  }
+
+  const result = await client.request(httpMethod, path, body);
   return JSON.stringify(result, null, 2);
 }
 
@@ -251,24 +2065,125 @@ function handleHelp(): string {
 **search** - Find stories
   {"action": "search"} -> your active stories
   {"action": "search", "query": "auth bug"} -> text search
+  {"action": "search", "query": {"owner": "me", "label": "api", "state": "!Done"}} -> structured filter
+    Filter keys: text, owner, requester, label, team, state, type, epic, iteration,
+    archived, created/updated/completed ("2025-01-01..2025-01-31", "7d", {from, to}),
+    estimate (3 or {min, max}), has, is, not: {...}. Prefix a name with "!" to negate it.
+  {"action": "search", "query": "...", "limit": 50} -> more results per call
+  {"action": "search", "query": "...", "cursor": "..."} -> next page
+  {"action": "search", "query": "...", "all": true} -> every page (max ${MAX_SEARCH_RESULTS})
 
 **get** - Story details
   {"action": "get", "id": "704"}
+  Long descriptions and comment threads are cut to a token budget, saying what was left out:
+  {"action": "get", "id": "704", "detail": "brief"} -> "brief", "normal" (default) or "full"
+  {"action": "get", "id": "704", "maxTokens": 1000}
+  {"action": "get", "id": "704", "section": "Logs"} -> one description section (number or heading)
+  {"action": "get", "id": "704", "comment": 12345} -> one comment in full
 
-**update** - Change state, estimate, owner
+**update** - Change state or any story field
+  owner accepts a name, @mention, email, member ID or "me"; ties are reported, not guessed
   {"action": "update", "id": "704", "state": "Done"}
+  {"action": "update", "id": "704", "addOwners": ["me"], "addLabels": ["api"], "iteration": "current"}
+  Fields: name, type, estimate, description, epic (null removes), owner, owners,
+  addOwners, removeOwners, labels, addLabels, removeLabels (createLabels: true to
+  create missing labels), followers, requester, iteration (name, ID, "current" or null),
+  deadline (YYYY-MM-DD or null)
+  {"action": "update", "ids": ["704", "705", "706"], "state": "Done"} -> batch (max ${MAX_BATCH_SIZE})
+
+**comment** - Add comment (@mention names become Shortcut mentions)
+  {"action": "comment", "id": "704", "body": "Fixed! @alice can you verify?"}
+
+**comments** - A story's comments, newest first, and changes to them
+  {"action": "comments", "id": "704"} -> pages with limit and cursor
+  {"action": "comments", "id": "704", "op": "reply", "comment": 123, "body": "Agreed"}
+  {"action": "comments", "id": "704", "op": "edit", "comment": 123, "body": "..."} -> your own only ("remove" deletes)
+  {"action": "comments", "id": "704", "op": "react", "comment": 123, "emoji": "+1"} -> "unreact" removes
 
-**comment** - Add comment
-  {"action": "comment", "id": "704", "body": "Fixed!"}
+**attachment** - A story's files and external links
+  {"action": "attachment", "id": "704"} -> files with sizes, linked files and external links
+  {"action": "attachment", "id": "704", "op": "add", "filename": "trace.log", "body": "..."} -> text file
+  {"action": "attachment", "id": "704", "op": "add", "filename": "shot.png", "content": "iVBOR..."} -> base64, up to 10 MB
+  {"action": "attachment", "id": "704", "op": "add", "url": "https://..."} -> external link ("remove" with url unlinks it)
+  {"action": "attachment", "id": "704", "op": "remove", "file": 42} -> deletes the file from Shortcut
 
-**create** - Create story
+**create** - Create story (in the workflow's default state; accepts the update fields)
   {"action": "create", "name": "Bug title", "type": "bug"}
+  {"action": "create", "name": "Bug title", "team": "Platform"} -> team's workflow
+  {"action": "create", "name": "Bug title", "workflow": "Support", "state": "Triage"}
 
-**epic** - Get epic with stories
+**epic** - Get epic with stories (pages like search)
   {"action": "epic", "id": "308"}
+  {"action": "epic", "id": "308", "graph": "mermaid"} -> dependency graph ("markdown" or "mermaid")
+  detail, maxTokens and section work as for get
+
+  {"action": "epic", "op": "create", "name": "Billing v2", "owners": ["me"], "deadline": "2025-06-30", "objective": "Q2 Revenue"}
+  {"action": "epic", "op": "update", "id": "308", "state": "In Progress", "description": "..."}
+  {"action": "epic", "op": "add", "id": "308", "ids": ["704", "705"]} -> move stories in ("remove" moves out)
+
+**objective** - Objectives and their epics with rolled-up progress
+  {"action": "objective"} -> list
+  {"action": "objective", "id": "Q2 Revenue"}
+
+**link** - Link stories (verb: blocks, blocked by, duplicates, relates to)
+  {"action": "link", "id": "704", "verb": "blocks", "target": "705"}
+  {"action": "link", "id": "704", "target": "705", "op": "remove"} -> remove links (optionally by verb)
+
+**task** - Manage a story's task checklist (task = checklist number or text)
+  {"action": "task", "id": "704", "body": "Write tests", "owner": "me"} -> add
+  {"action": "task", "id": "704", "op": "complete", "task": 2}
+  {"action": "task", "id": "704", "op": "edit", "task": "tests", "body": "Write e2e tests"}
+  {"action": "task", "id": "704", "op": "move", "task": 3, "position": 1}
+  ops: add, complete, uncomplete, edit, move, remove
+
+**iteration** - Sprint view: stories by progress, points and daily burndown
+  {"action": "iteration"} -> current iteration
+  {"action": "iteration", "id": "next"} -> also "previous", a name or an ID
+  {"action": "iteration", "op": "list"}
+  {"action": "iteration", "op": "rollover"} -> move unfinished stories to the next iteration
+
+**activity** - Recent changes received by webhook (needs webhooks configured)
+  {"action": "activity", "id": "704"} -> what changed on a story
+  {"action": "activity", "epic": 308} -> on an epic and its stories
+  {"action": "activity", "since": "yesterday"} -> also "today", "24h", "7d" or a date
+
+**branch** - Branch name for a story (user/sc-704/slug), with its branches, PRs and commits
+  {"action": "branch", "id": "704"}
+  IDs anywhere also accept branch names and PR titles, e.g. "feature/sc-704-fix-login"
+
+**whoami** - The member this connection acts as, and how it authenticated
+  {"action": "whoami"}
+
+**logout** - Revoke this client's stored token (OAuth connections only)
+  {"action": "logout"}
+  {"action": "logout", "all": true} -> every client you've authorized
+
+**audit** - Writes made through this server: who (member and token fingerprint), what, and before/after for story
+  updates and creates (comments, tasks, links, files and epic changes are recorded without a before/after)
+  {"action": "audit", "id": "704"} -> changes to a story
+  {"action": "audit", "member": "alice", "since": "7d"}
+  {"action": "audit", "since": "2025-06-01", "until": "2025-07-01"}
+
+**undo** - Revert a story update or create made through this server (needs the audit log)
+  {"action": "undo"} -> your most recent one
+  {"action": "undo", "id": "42"} -> a specific audit entry
+  Restores the previous field values, or archives a created story. Fields changed again
+  since are left alone and reported.
 
 **api** - Raw REST API
   {"action": "api", "method": "GET", "path": "/workflows"}
 
-**help** - This documentation`;
+**help** - This documentation
+
+Calls blocked by the server's access policy report which policy and rule denied them.
+
+Add "dryRun": true to update, create, comment, comments changes, attachment changes, link, task, epic changes, iteration rollover, undo or api to preview the resolved
+payload and a before/after diff without writing anything.
+
+Add "format" to search, get, epic, iteration and objective for fewer tokens or structured data:
+"compact" (pipe-separated rows), "table" (Markdown), "json" or "csv". "fields" picks the columns:
+  {"action": "search", "query": "...", "format": "compact", "fields": ["id", "name", "state", "owners"]}
+  Story fields: ${Object.keys(STORY_COLUMNS).join(", ")} (description with get only)
+
+Add "refresh": true to any action to bypass cached workflows, members, labels and epics.`;
 }
@@ -7,30 +7,126 @@
 
 import { createMcpHandler } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { OAuthProvider } from "@cloudflare/workers-oauth-provider";
+import { AUTHORIZE_PATH, REGISTER_PATH, TOKEN_PATH, handleAuthorize } from "./auth";
+import { AuditRecorder, tokenFingerprint } from "./audit";
+import { MetadataCache, hashToken } from "./cache";
 import { ShortcutClient } from "./client";
+import { ShortcutApiError } from "./errors";
+import { errorMessage } from "./utils";
 import { handleAction } from "./handlers";
-import { Env, SERVER_NAME, SERVER_VERSION, ShortcutParams } from "./types";
+import { registerPrompts } from "./prompts";
+import { registerResources } from "./resources";
+import { READONLY_ROUTE, loadPolicyConfig, selectPolicies } from "./policy";
+import { handleWebhook } from "./webhooks";
+import {
+  ActionRunner,
+  AuthSession,
+  Env,
+  OAuthProps,
+  SERVER_NAME,
+  SERVER_VERSION,
+  ShortcutParams,
+} from "./types";
+
+const TOKEN_HEADER = "X-Shortcut-Token";
 
 /**
- * Create MCP server with single tool configured for the given token
+ * Create MCP server with the single tool, resources and prompts for the given client
  */
-function createServer(token: string) {
+function createServer(
+  client: ShortcutClient,
+  env: Env,
+  session: AuthSession,
+  audit?: AuditRecorder
+) {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
-  const client = new ShortcutClient(token);
+  const run: ActionRunner = async (params) => {
+    const recorder = audit?.forAction(params.action);
+    const scoped = (params.refresh ? client.bypassCache() : client).withAudit(recorder);
+    const result = await handleAction(params, scoped, env, session);
+    if (!recorder || recorder.failures.length === 0) return result;
+
+    const note = [
+      "Note: these calls were not recorded in the audit log:",
+      ...recorder.failures.map((f) => `- ${f}`),
+    ].join("\n");
+    return { ...result, content: [...result.content, { type: "text", text: note }] };
+  };
 
   // Single tool with action dispatch
-  server.tool("shortcut", ShortcutParams.shape, async (args) => {
-    const params = ShortcutParams.parse(args);
-    return handleAction(params, client);
-  });
+  server.tool("shortcut", ShortcutParams.shape, async (args) => run(ShortcutParams.parse(args)));
+
+  registerResources(server, run);
+  registerPrompts(server, run, env);
 
   return server;
 }
 
+/**
+ * Serve an MCP request with the given Shortcut token
+ */
+async function serveMcp(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  token: string,
+  session: Omit<AuthSession, "policies" | "tokenFingerprint">
+): Promise<Response> {
+  const route = new URL(request.url).pathname;
+
+  // A broken policy fails closed rather than serving with no restrictions
+  const tokenHash = await hashToken(token);
+  let policies;
+  try {
+    policies = selectPolicies(await loadPolicyConfig(env), route, tokenHash);
+  } catch (error) {
+    return jsonResponse(
+      { error: "Access policy misconfigured", message: errorMessage(error) },
+      500
+    );
+  }
+
+  const cache = await MetadataCache.forToken(token, env.SHORTCUT_CACHE);
+  const client = new ShortcutClient(token, cache);
+  const audit = env.AUDIT
+    ? new AuditRecorder(env, tokenFingerprint(tokenHash), () => client.getCurrentMember())
+    : undefined;
+
+  // Who am I: refuse the connection if Shortcut no longer accepts the token.
+  // The member is cached, so this costs one API call per cache lifetime.
+  try {
+    await client.getCurrentMember();
+  } catch (error) {
+    if (error instanceof ShortcutApiError && error.status === 401) {
+      return jsonResponse(
+        {
+          error: "Shortcut rejected the token",
+          message:
+            session.mode === "oauth"
+              ? "Your stored Shortcut token is no longer valid. Reconnect to authorize again."
+              : `The token in ${TOKEN_HEADER} is invalid or revoked.`,
+        },
+        401
+      );
+    }
+    // Anything else surfaces on the first tool call
+  }
+
+  const server = createServer(
+    client,
+    env,
+    { ...session, policies, tokenFingerprint: tokenFingerprint(tokenHash) },
+    audit
+  );
+  const handler = createMcpHandler(server, { route });
+  return handler(request, env, ctx);
+}
+
 /**
  * Health endpoint response
  */
@@ -43,11 +139,13 @@ function healthResponse(): Response {
       description: "StreamShortcut MCP - Lightweight Shortcut integration",
       endpoints: {
         mcp: "/mcp",
+        mcpReadonly: READONLY_ROUTE,
         health: "/health",
+        webhooks: "/webhooks/shortcut",
       },
       tool: {
         name: "shortcut",
-        actions: ["search", "get", "update", "comment", "create", "epic", "api", "help"],
+        actions: ShortcutParams.shape.action.options,
       },
       documentation: "https://github.com/stayce/streamshortcut-cloudflare",
     }),
@@ -60,52 +158,113 @@ function healthResponse(): Response {
   );
 }
 
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Durable Object classes must be exported from the entry point
+export { ActivityStore } from "./activity";
+export { AuditLog } from "./audit";
+
 /**
- * Main Cloudflare Worker fetch handler
+ * Routes that don't need OAuth: health, webhooks and header-token MCP
  */
-export default {
-  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
+async function handleRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const url = new URL(request.url);
 
-    // Health check endpoint
-    if (url.pathname === "/health" || url.pathname === "/") {
-      return healthResponse();
-    }
+  // Health check endpoint
+  if (url.pathname === "/health" || url.pathname === "/") {
+    return healthResponse();
+  }
+
+  // Shortcut outgoing webhooks - feeds the activity action
+  if (url.pathname === "/webhooks/shortcut") {
+    return handleWebhook(request, env);
+  }
+
+  // MCP endpoint - streamable HTTP transport
+  if (url.pathname === "/mcp" || url.pathname === READONLY_ROUTE) {
+    // Require user's Shortcut API token via header
+    const token = request.headers.get(TOKEN_HEADER);
 
-    // MCP endpoint - streamable HTTP transport
-    if (url.pathname === "/mcp") {
-      // Require user's Shortcut API token via header
-      const token = request.headers.get("X-Shortcut-Token");
-
-      if (!token) {
-        return new Response(
-          JSON.stringify({
-            error: "Missing X-Shortcut-Token header",
-            message: "You must provide your own Shortcut API token. Get one at: https://app.shortcut.com/settings/account/api-tokens",
-            example: {
-              mcpServers: {
-                shortcut: {
-                  type: "http",
-                  url: "https://streamshortcut.staycek.workers.dev/mcp",
-                  headers: {
-                    "X-Shortcut-Token": "your-token-here"
-                  }
+    if (!token) {
+      return jsonResponse(
+        {
+          error: `Missing ${TOKEN_HEADER} header`,
+          message: "You must provide your own Shortcut API token. Get one at: https://app.shortcut.com/settings/account/api-tokens",
+          example: {
+            mcpServers: {
+              shortcut: {
+                type: "http",
+                url: "https://streamshortcut.staycek.workers.dev/mcp",
+                headers: {
+                  [TOKEN_HEADER]: "your-token-here"
                 }
               }
             }
-          }),
-          {
-            status: 401,
-            headers: { "Content-Type": "application/json" }
           }
-        );
-      }
-
-      const server = createServer(token);
-      const handler = createMcpHandler(server);
-      return handler(request, env, ctx);
+        },
+        401
+      );
     }
 
-    return new Response("Not Found", { status: 404 });
+    return serveMcp(request, env, ctx, token, { mode: "header" });
+  }
+
+  return new Response("Not Found", { status: 404 });
+}
+
+// One provider per origin, since the protected resource is this deployment's /mcp URL
+const oauthProviders = new Map<string, OAuthProvider<Env>>();
+
+/**
+ * OAuth mode: /mcp needs an access token whose grant holds the Shortcut token
+ */
+function oauthProvider(origin: string): OAuthProvider<Env> {
+  let provider = oauthProviders.get(origin);
+  if (!provider) {
+    provider = new OAuthProvider<Env>({
+      apiRoute: "/mcp",
+      apiHandler: {
+        fetch: (request, env, ctx) => {
+          const props = (ctx as ExecutionContext<OAuthProps>).props;
+          return serveMcp(request, env, ctx, props.token, {
+            mode: "oauth",
+            userId: props.userId,
+            clientId: props.clientId,
+          });
+        },
+      },
+      defaultHandler: {
+        fetch: async (request, env, ctx) =>
+          (await handleAuthorize(request, env)) ?? handleRequest(request, env, ctx),
+      },
+      authorizeEndpoint: AUTHORIZE_PATH,
+      tokenEndpoint: TOKEN_PATH,
+      clientRegistrationEndpoint: REGISTER_PATH,
+      resourceMetadata: { resource: `${origin}/mcp`, resource_name: SERVER_NAME },
+    });
+    oauthProviders.set(origin, provider);
+  }
+  return provider;
+}
+
+/**
+ * Main Cloudflare Worker fetch handler
+ */
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    // The token header always works; OAuth handles everything else when enabled
+    if (env.OAUTH_KV && !request.headers.has(TOKEN_HEADER)) {
+      return oauthProvider(new URL(request.url).origin).fetch(request, env, ctx);
+    }
+    return handleRequest(request, env, ctx);
   },
 };
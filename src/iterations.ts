@@ -0,0 +1,94 @@
+/**
+ * StreamShortcut MCP Server - Iteration Summaries
+ *
+ * Points and burndown for an iteration, computed from its stories'
+ * estimates and completed_at timestamps.
+ */
+
+import { ShortcutIteration, ShortcutStory, ShortcutWorkflowState } from "./types";
+
+type StateType = ShortcutWorkflowState["type"];
+
+export interface BurndownDay {
+  date: string;
+  remaining: number;
+  ideal: number;
+}
+
+export interface IterationSummary {
+  groups: Record<StateType, ShortcutStory[]>;
+  committed: number;
+  completed: number;
+  remaining: number;
+  unestimated: number;
+  burndown: BurndownDay[];
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Group stories by state type and compute points and a daily burndown
+ */
+export function summarizeIteration(
+  iteration: ShortcutIteration,
+  stories: ShortcutStory[],
+  stateTypes: Map<number, StateType>,
+  now = new Date()
+): IterationSummary {
+  const groups: Record<StateType, ShortcutStory[]> = { unstarted: [], started: [], done: [] };
+  for (const story of stories) {
+    const type = story.completed ? "done" : stateTypes.get(story.workflow_state_id) ?? "unstarted";
+    groups[type].push(story);
+  }
+
+  const points = (list: ShortcutStory[]) => list.reduce((sum, s) => sum + (s.estimate ?? 0), 0);
+  const committed = points(stories);
+  const completed = points(groups.done);
+
+  return {
+    groups,
+    committed,
+    completed,
+    remaining: committed - completed,
+    unestimated: stories.filter((s) => s.estimate === undefined || s.estimate === null).length,
+    burndown: burndown(iteration, stories, committed, now),
+  };
+}
+
+/**
+ * Remaining points at the end of each day, up to today or the end date
+ */
+function burndown(
+  iteration: ShortcutIteration,
+  stories: ShortcutStory[],
+  committed: number,
+  now: Date
+): BurndownDay[] {
+  const start = Date.parse(`${iteration.start_date}T00:00:00Z`);
+  const end = Date.parse(`${iteration.end_date}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return [];
+
+  const totalDays = Math.round((end - start) / DAY_MS);
+  const lastDay = Math.min(end, Math.floor(now.getTime() / DAY_MS) * DAY_MS);
+
+  const completions = stories
+    .filter((s) => s.completed && s.completed_at)
+    .map((s) => ({ at: Date.parse(s.completed_at!), points: s.estimate ?? 0 }));
+
+  const days: BurndownDay[] = [];
+  for (let day = start, index = 0; day <= lastDay; day += DAY_MS, index++) {
+    const endOfDay = day + DAY_MS;
+    const done = completions
+      .filter((c) => c.at < endOfDay)
+      .reduce((sum, c) => sum + c.points, 0);
+    const ideal = totalDays === 0 ? 0 : committed * (1 - index / totalDays);
+
+    days.push({
+      date: new Date(day).toISOString().slice(0, 10),
+      remaining: committed - done,
+      ideal: Math.round(ideal * 10) / 10,
+    });
+  }
+
+  return days;
+}
@@ -0,0 +1,43 @@
+/**
+ * StreamShortcut MCP Server - Mentions
+ *
+ * Comment text written with plain @mention names is rewritten into Shortcut
+ * member mentions, so the people named are notified. Only exact mention
+ * names are matched; anything else is left as typed and reported.
+ */
+
+import { ShortcutMember } from "./types";
+
+export interface ResolvedMentions {
+  text: string;
+  mentioned: ShortcutMember[];
+  // @names that matched no member, left as plain text
+  unknown: string[];
+}
+
+// Code, existing mention links, then a bare @name not inside a word or email
+const MENTION = /(```[\s\S]*?```|`[^`\n]*`|\[@[^\]]*\]\([^)]*\))|(^|[^\w@./])@([a-z0-9][\w.-]*[\w-]|[a-z0-9])/gi;
+
+/**
+ * Rewrite @mention names in text as Shortcut member mentions
+ */
+export function resolveMentions(text: string, members: ShortcutMember[]): ResolvedMentions {
+  const byMention = new Map(
+    members.filter((m) => !m.disabled).map((m) => [m.profile.mention_name.toLowerCase(), m])
+  );
+  const mentioned = new Map<string, ShortcutMember>();
+  const unknown = new Set<string>();
+
+  const resolved = text.replace(MENTION, (match, skipped, before, name) => {
+    if (skipped) return match;
+    const member = byMention.get(name.toLowerCase());
+    if (!member) {
+      unknown.add(`@${name}`);
+      return match;
+    }
+    mentioned.set(member.id, member);
+    return `${before}[@${member.profile.mention_name}](shortcutapp://members/${member.id})`;
+  });
+
+  return { text: resolved, mentioned: [...mentioned.values()], unknown: [...unknown] };
+}
@@ -0,0 +1,177 @@
+/**
+ * StreamShortcut MCP Server - Output Formats
+ *
+ * Besides the default text, list and detail actions can answer as compact
+ * rows, a Markdown table, JSON or CSV, limited to the fields asked for.
+ * Every format is built from the same trimmed records, so a field has the
+ * same name and value whichever format carries it.
+ */
+
+import { ShortcutIteration, ShortcutObjective, ShortcutStory, StoryNames } from "./types";
+
+export type OutputFormat = "compact" | "table" | "json" | "csv";
+
+export interface OutputOptions {
+  format: OutputFormat;
+  fields?: string[];
+}
+
+type Value = string | number | boolean | null | string[];
+type OutputRecord = Record<string, Value>;
+type Columns<T> = Record<string, (item: T, names?: StoryNames) => Value>;
+
+export const STORY_COLUMNS: Columns<ShortcutStory> = {
+  id: (s) => s.id,
+  name: (s) => s.name,
+  type: (s) => s.story_type,
+  state: (s, names) => names?.states.get(s.workflow_state_id) ?? s.workflow_state_id,
+  // done, started or unstarted, whatever the workflow calls it
+  status: (s) => (s.completed ? "done" : s.started ? "started" : "unstarted"),
+  estimate: (s) => s.estimate ?? null,
+  owners: (s, names) => s.owner_ids.map((id) => mentionName(names, id)),
+  requester: (s, names) => (s.requested_by_id ? mentionName(names, s.requested_by_id) : null),
+  epic: (s, names) => (s.epic_id ? names?.epics.get(s.epic_id) ?? String(s.epic_id) : null),
+  epic_id: (s) => s.epic_id ?? null,
+  iteration: (s, names) =>
+    s.iteration_id ? names?.iterations.get(s.iteration_id) ?? String(s.iteration_id) : null,
+  iteration_id: (s) => s.iteration_id ?? null,
+  team: (s, names) => (s.group_id ? names?.teams.get(s.group_id) ?? s.group_id : null),
+  labels: (s) => s.labels.map((l) => l.name),
+  deadline: (s) => s.deadline?.slice(0, 10) ?? null,
+  updated: (s) => s.updated_at ?? null,
+  url: (s) => s.app_url,
+  description: (s) => s.description ?? null,
+};
+
+export const ITERATION_COLUMNS: Columns<ShortcutIteration> = {
+  id: (i) => i.id,
+  name: (i) => i.name,
+  status: (i) => i.status,
+  start: (i) => i.start_date,
+  end: (i) => i.end_date,
+  url: (i) => i.app_url,
+};
+
+export const OBJECTIVE_COLUMNS: Columns<ShortcutObjective> = {
+  id: (o) => o.id,
+  name: (o) => o.name,
+  state: (o) => o.state,
+  url: (o) => o.app_url,
+};
+
+// Story lists come from slim search results, which carry no description
+const DETAIL_ONLY_FIELDS = ["description"];
+export const STORY_LIST_COLUMNS: Columns<ShortcutStory> = Object.fromEntries(
+  Object.entries(STORY_COLUMNS).filter(([field]) => !DETAIL_ONLY_FIELDS.includes(field))
+);
+
+// Fields shown when none are asked for
+export const STORY_LIST_FIELDS = ["id", "name", "state", "type", "estimate", "owners"];
+export const STORY_DETAIL_FIELDS = Object.keys(STORY_COLUMNS);
+
+/**
+ * Output options from tool params; undefined means the default text.
+ * Asking for fields without a format gets compact rows.
+ */
+export function outputOptions(params: {
+  format?: OutputFormat | "text";
+  fields?: string[];
+}): OutputOptions | undefined {
+  if (params.format === "text" || (!params.format && !params.fields)) {
+    if (params.fields) throw new Error('fields needs format "compact", "table", "json" or "csv"');
+    return undefined;
+  }
+  return { format: params.format ?? "compact", fields: params.fields };
+}
+
+/**
+ * Trimmed records for the items, with only the selected fields
+ */
+export function toRecords<T>(
+  items: T[],
+  columns: Columns<T>,
+  fields: string[],
+  names?: StoryNames
+): OutputRecord[] {
+  return items.map((item) =>
+    Object.fromEntries(fields.map((field) => [field, columns[field](item, names)]))
+  );
+}
+
+/**
+ * The fields asked for, checked against what the columns offer
+ */
+export function selectFields<T>(
+  columns: Columns<T>,
+  requested: string[] | undefined,
+  defaults: string[]
+): string[] {
+  if (!requested || requested.length === 0) return defaults;
+
+  const unknown = requested.filter((field) => !(field in columns));
+  if (unknown.length > 0) {
+    const list = unknown.map((f) => `"${f}"`).join(", ");
+    throw new Error(
+      `Unknown field${unknown.length > 1 ? "s" : ""} ${list}. Available: ${Object.keys(columns).join(", ")}`
+    );
+  }
+  return [...new Set(requested)];
+}
+
+/**
+ * The fields asked for in a story list, refusing those only get returns
+ */
+export function selectListFields(requested: string[] | undefined, defaults: string[]): string[] {
+  const detailOnly = requested?.filter((field) => DETAIL_ONLY_FIELDS.includes(field)) ?? [];
+  if (detailOnly.length > 0) {
+    throw new Error(`${detailOnly.join(", ")} is only available from get, not in story lists`);
+  }
+  return selectFields(STORY_LIST_COLUMNS, requested, defaults);
+}
+
+/**
+ * Render records as compact rows, a Markdown table or CSV (JSON is left to
+ * callers, which wrap records with paging or parent details)
+ */
+export function renderRows(
+  records: OutputRecord[],
+  fields: string[],
+  format: Exclude<OutputFormat, "json">
+): string {
+  switch (format) {
+    case "compact":
+      // Column names once, then one pipe-separated line per record
+      return [
+        fields.join("|"),
+        ...records.map((r) => fields.map((f) => cell(r[f], ",").replace(/\|/g, "/")).join("|")),
+      ].join("\n");
+
+    case "table":
+      return [
+        `| ${fields.join(" | ")} |`,
+        `|${fields.map(() => "---").join("|")}|`,
+        ...records.map(
+          (r) => `| ${fields.map((f) => cell(r[f], ", ").replace(/\|/g, "\\|")).join(" | ")} |`
+        ),
+      ].join("\n");
+
+    case "csv":
+      return [fields, ...records.map((r) => fields.map((f) => cell(r[f], ";", false)))]
+        .map((row) => row.map(csvEscape).join(","))
+        .join("\n");
+  }
+}
+
+function cell(value: Value, separator: string, singleLine = true): string {
+  if (value === null) return "";
+  const text = Array.isArray(value) ? value.join(separator) : String(value);
+  return singleLine ? text.replace(/\s*\n+\s*/g, " ") : text;
+}
+
+function csvEscape(text: string): string {
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function mentionName(names: StoryNames | undefined, id: string): string {
+  return names?.members.get(id) ?? id;
+}
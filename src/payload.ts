@@ -0,0 +1,327 @@
+/**
+ * StreamShortcut MCP Server - Story Payloads
+ *
+ * Resolves the names in create/update params into Shortcut story fields.
+ * Add/remove changes are expressed with the bulk endpoint's `*_add` /
+ * `*_remove` fields and only turned into full lists, against a story's
+ * current values, when they have to be sent to a single-story endpoint.
+ */
+
+import { ShortcutClient } from "./client";
+import { ResolutionError } from "./errors";
+import { closeMatches } from "./resolver";
+import { ShortcutStory } from "./types";
+
+export interface StoryFields {
+  name?: string;
+  type?: string;
+  estimate?: number;
+  description?: string;
+  // Single owner (replaces all owners; null clears them)
+  owner?: string | null;
+  owners?: string[];
+  addOwners?: string[];
+  removeOwners?: string[];
+  labels?: string[];
+  addLabels?: string[];
+  removeLabels?: string[];
+  // Create labels that don't exist yet instead of failing
+  createLabels?: boolean;
+  followers?: string[];
+  requester?: string;
+  // Name, ID or "current"; null removes the story from its iteration
+  iteration?: string | null;
+  // YYYY-MM-DD or ISO timestamp; null clears it
+  deadline?: string | null;
+  epic?: number | null;
+}
+
+export interface StoryUpdates extends StoryFields {
+  state?: string;
+}
+
+export interface EpicFields {
+  name?: string;
+  description?: string;
+  // Epic state name (e.g. "In Progress")
+  state?: string;
+  owners?: string[];
+  addOwners?: string[];
+  removeOwners?: string[];
+  deadline?: string | null;
+  // Objective name or ID; null detaches the epic
+  objective?: string | null;
+}
+
+// Fields PUT /stories/bulk accepts
+const BULK_FIELDS = new Set([
+  "workflow_state_id",
+  "estimate",
+  "story_type",
+  "epic_id",
+  "iteration_id",
+  "deadline",
+  "requested_by_id",
+  "group_id",
+  "owner_ids_add",
+  "owner_ids_remove",
+  "follower_ids_add",
+  "follower_ids_remove",
+  "labels_add",
+  "labels_remove",
+]);
+
+/**
+ * Resolve an update (state plus story fields) into a payload
+ */
+export async function buildUpdateInput(
+  client: ShortcutClient,
+  updates: StoryUpdates,
+  workflowId?: number
+): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {};
+
+  if (updates.state) {
+    const stateId = await client.resolveState(updates.state, workflowId);
+    if (!stateId) {
+      const allStates = await client.getAllStateNames(workflowId);
+      throw new Error(`State "${updates.state}" not found. Valid: ${allStates.join(", ")}`);
+    }
+    input.workflow_state_id = stateId;
+  }
+
+  return { ...input, ...(await buildFieldsInput(client, updates)) };
+}
+
+/**
+ * Resolve story fields (everything except state) into a payload
+ */
+export async function buildFieldsInput(
+  client: ShortcutClient,
+  fields: StoryFields
+): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {};
+
+  if (fields.name) input.name = fields.name;
+  if (fields.type) input.story_type = fields.type;
+  if (fields.estimate !== undefined) input.estimate = fields.estimate;
+  if (fields.description !== undefined) input.description = fields.description;
+  if (fields.epic !== undefined) input.epic_id = fields.epic;
+
+  // Owners: a single `owner` or `owners` replace; add/remove adjust
+  if (fields.owner !== undefined) {
+    input.owner_ids = fields.owner === null ? [] : await resolveMemberIds(client, [fields.owner]);
+  }
+  if (fields.owners) input.owner_ids = await resolveMemberIds(client, fields.owners);
+  if (fields.addOwners) input.owner_ids_add = await resolveMemberIds(client, fields.addOwners);
+  if (fields.removeOwners) {
+    input.owner_ids_remove = await resolveMemberIds(client, fields.removeOwners);
+  }
+
+  if (fields.followers) input.follower_ids = await resolveMemberIds(client, fields.followers);
+  if (fields.requester) {
+    [input.requested_by_id] = await resolveMemberIds(client, [fields.requester]);
+  }
+
+  // Labels are sent by name; Shortcut creates any that don't exist
+  const create = fields.createLabels ?? false;
+  if (fields.labels) input.labels = await resolveLabels(client, fields.labels, create);
+  if (fields.addLabels) input.labels_add = await resolveLabels(client, fields.addLabels, create);
+  if (fields.removeLabels) {
+    input.labels_remove = await resolveLabels(client, fields.removeLabels, false);
+  }
+
+  if (fields.iteration !== undefined) {
+    input.iteration_id =
+      fields.iteration === null ? null : await resolveIterationId(client, fields.iteration);
+  }
+
+  if (fields.deadline !== undefined) {
+    input.deadline = fields.deadline === null ? null : normalizeDeadline(fields.deadline);
+  }
+
+  return input;
+}
+
+/**
+ * Resolve epic fields into an epic payload
+ */
+export async function buildEpicInput(
+  client: ShortcutClient,
+  fields: EpicFields
+): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {};
+
+  if (fields.name) input.name = fields.name;
+  if (fields.description !== undefined) input.description = fields.description;
+
+  if (fields.state) {
+    const state = await client.resolveEpicState(fields.state);
+    if (!state) {
+      const { epic_states } = await client.getEpicWorkflow();
+      const names = epic_states.map((st) => st.name);
+      throw new ResolutionError("epic state", fields.state, closeMatches(fields.state, names));
+    }
+    input.epic_state_id = state.id;
+  }
+
+  if (fields.owners) input.owner_ids = await resolveMemberIds(client, fields.owners);
+  if (fields.addOwners) input.owner_ids_add = await resolveMemberIds(client, fields.addOwners);
+  if (fields.removeOwners) {
+    input.owner_ids_remove = await resolveMemberIds(client, fields.removeOwners);
+  }
+
+  if (fields.deadline !== undefined) {
+    input.deadline = fields.deadline === null ? null : normalizeDeadline(fields.deadline);
+  }
+
+  if (fields.objective !== undefined) {
+    if (fields.objective === null) {
+      input.objective_ids = [];
+    } else {
+      const objective = await client.resolveObjective(fields.objective);
+      if (!objective) {
+        const names = (await client.getObjectives()).map((o) => o.name);
+        throw new ResolutionError("objective", fields.objective, closeMatches(fields.objective, names));
+      }
+      input.objective_ids = [objective.id];
+    }
+  }
+
+  return input;
+}
+
+/**
+ * Whether a payload can be sent through PUT /stories/bulk
+ */
+export function canBulkUpdate(input: Record<string, unknown>): boolean {
+  return Object.keys(input).every((field) => BULK_FIELDS.has(field));
+}
+
+/**
+ * Whether a payload carries add/remove changes
+ */
+export function hasDeltas(input: Record<string, unknown>): boolean {
+  return Object.keys(input).some((field) => /_(add|remove)$/.test(field));
+}
+
+/**
+ * Turn add/remove changes into full lists for a single-story endpoint
+ */
+export function materializeDeltas(
+  story: Partial<Pick<ShortcutStory, "owner_ids" | "follower_ids" | "labels">> | undefined,
+  input: Record<string, unknown>
+): Record<string, unknown> {
+  const {
+    owner_ids_add,
+    owner_ids_remove,
+    follower_ids_add,
+    follower_ids_remove,
+    labels_add,
+    labels_remove,
+    ...rest
+  } = input;
+  const output: Record<string, unknown> = { ...rest };
+
+  if (owner_ids_add || owner_ids_remove) {
+    output.owner_ids = applyDelta(
+      (rest.owner_ids as string[] | undefined) ?? story?.owner_ids ?? [],
+      owner_ids_add as string[] | undefined,
+      owner_ids_remove as string[] | undefined
+    );
+  }
+
+  if (follower_ids_add || follower_ids_remove) {
+    output.follower_ids = applyDelta(
+      (rest.follower_ids as string[] | undefined) ?? story?.follower_ids ?? [],
+      follower_ids_add as string[] | undefined,
+      follower_ids_remove as string[] | undefined
+    );
+  }
+
+  if (labels_add || labels_remove) {
+    const current =
+      (rest.labels as Array<{ name: string }> | undefined) ??
+      story?.labels?.map((l) => ({ name: l.name })) ??
+      [];
+    const names = applyDelta(
+      current.map((l) => l.name.toLowerCase()),
+      (labels_add as Array<{ name: string }> | undefined)?.map((l) => l.name.toLowerCase()),
+      (labels_remove as Array<{ name: string }> | undefined)?.map((l) => l.name.toLowerCase())
+    );
+    const byName = new Map(
+      [...current, ...((labels_add as Array<{ name: string }>) ?? [])].map((l) => [
+        l.name.toLowerCase(),
+        l,
+      ])
+    );
+    output.labels = names.map((n) => byName.get(n) ?? { name: n });
+  }
+
+  return output;
+}
+
+function applyDelta<T>(current: T[], add: T[] = [], remove: T[] = []): T[] {
+  return [...new Set([...current, ...add])].filter((value) => !remove.includes(value));
+}
+
+// Name resolution
+
+/**
+ * Resolve member names to IDs, failing with close matches on a miss
+ */
+export async function resolveMemberIds(
+  client: ShortcutClient,
+  names: string[]
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (const name of names) {
+    const memberId = await client.resolveMember(name);
+    if (!memberId) {
+      const members = await client.getMembers();
+      const candidates = members.flatMap((m) => [m.profile.mention_name, m.profile.name]);
+      throw new ResolutionError("member", name, closeMatches(name, candidates));
+    }
+    ids.push(memberId);
+  }
+  return [...new Set(ids)];
+}
+
+async function resolveLabels(
+  client: ShortcutClient,
+  names: string[],
+  create: boolean
+): Promise<Array<{ name: string }>> {
+  const labels = await client.getLabels();
+
+  return names.map((name) => {
+    const match = labels.find((l) => l.name.toLowerCase() === name.toLowerCase());
+    if (match) return { name: match.name };
+    if (create) return { name };
+
+    throw new ResolutionError(
+      "label",
+      name,
+      closeMatches(name, labels.map((l) => l.name))
+    );
+  });
+}
+
+async function resolveIterationId(client: ShortcutClient, input: string): Promise<number> {
+  const iteration = await client.resolveIteration(input);
+  if (iteration) return iteration.id;
+
+  const names = (await client.getIterations()).map((i) => i.name);
+  throw new ResolutionError("iteration", input, closeMatches(input, names));
+}
+
+/**
+ * Accept a date or timestamp, send an ISO timestamp
+ */
+export function normalizeDeadline(value: string): string {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid deadline "${value}". Use YYYY-MM-DD or an ISO timestamp.`);
+  }
+  return date.toISOString();
+}
@@ -0,0 +1,272 @@
+/**
+ * StreamShortcut MCP Server - Access Policies
+ *
+ * Limits what a connection may do: which actions, whether it may write,
+ * which raw API calls and how many stories per batch. Policies come from
+ * the SHORTCUT_POLICY env var or the "policy" key in POLICY_KV, and are
+ * selected by route (e.g. /mcp/readonly) and by token. Every policy that
+ * applies to a connection must allow a call.
+ */
+
+import { z } from "zod";
+import { PolicyError } from "./errors";
+import { Env, ShortcutParams, ShortcutParamsType } from "./types";
+
+export const READONLY_ROUTE = "/mcp/readonly";
+
+const POLICY_KV_KEY = "policy";
+
+// Path of the Shortcut REST API that api paths are relative to
+const API_PREFIX = "/api/v3";
+const POLICY_KV_CACHE_TTL = 60;
+
+const ActionName = z.enum(ShortcutParams.shape.action.options);
+
+// "METHOD /path", where * matches one path segment and ** any number
+const ApiRule = z
+  .string()
+  .regex(/^(\*|[A-Za-z]+) \/\S*$/, 'API rules look like "GET /stories/*" or "* /search/**"');
+
+export const AccessPolicy = z
+  .object({
+    // Refuse every call that writes to Shortcut (dry runs are still allowed)
+    readOnly: z.boolean().optional(),
+    allowActions: z.array(ActionName).optional(),
+    denyActions: z.array(ActionName).optional(),
+    api: z
+      .object({ allow: z.array(ApiRule).optional(), deny: z.array(ApiRule).optional() })
+      .strict()
+      .optional(),
+    // Most stories per call (ids, iteration rollover, story_ids in api bodies)
+    maxBatchSize: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export const PolicyConfig = z
+  .object({
+    policies: z.record(AccessPolicy).default({}),
+    // Applied to every connection
+    default: z.string().optional(),
+    // Route path -> policy name
+    routes: z.record(z.string()).default({}),
+    // SHA-256 hex of a Shortcut token -> policy name (never the token itself)
+    tokens: z.record(z.string()).default({}),
+  })
+  .strict();
+
+export type AccessPolicyType = z.infer<typeof AccessPolicy>;
+export type PolicyConfigType = z.infer<typeof PolicyConfig>;
+
+export interface NamedPolicy {
+  name: string;
+  policy: AccessPolicyType;
+}
+
+// Always defined; "readonly" also guards /mcp/readonly unless the config maps that route
+const BUILTIN_POLICIES: Record<string, AccessPolicyType> = {
+  readonly: { readOnly: true },
+};
+
+/**
+ * Load and validate the configured policy, if any
+ */
+export async function loadPolicyConfig(env: Env): Promise<PolicyConfigType> {
+  const raw =
+    env.SHORTCUT_POLICY ??
+    (await env.POLICY_KV?.get(POLICY_KV_KEY, { cacheTtl: POLICY_KV_CACHE_TTL })) ??
+    null;
+  if (!raw) return PolicyConfig.parse({});
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid access policy: not valid JSON");
+  }
+
+  const parsed = PolicyConfig.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) =>
+      i.path.length > 0 ? `${i.path.join(".")}: ${i.message}` : i.message
+    );
+    throw new Error(`Invalid access policy: ${issues.join("; ")}`);
+  }
+
+  const config = parsed.data;
+  const referenced = [
+    ...(config.default ? [config.default] : []),
+    ...Object.values(config.routes),
+    ...Object.values(config.tokens),
+  ];
+  for (const name of referenced) {
+    if (!config.policies[name] && !BUILTIN_POLICIES[name]) {
+      throw new Error(`Invalid access policy: unknown policy "${name}"`);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * The policies that apply to a connection on this route with this token
+ */
+export function selectPolicies(
+  config: PolicyConfigType,
+  route: string,
+  tokenHash: string
+): NamedPolicy[] {
+  const names = [
+    config.default,
+    config.routes[route] ?? (route === READONLY_ROUTE ? "readonly" : undefined),
+    config.tokens[tokenHash],
+  ].filter((name): name is string => name !== undefined);
+
+  return [...new Set(names)].map((name) => ({
+    name,
+    policy: config.policies[name] ?? BUILTIN_POLICIES[name],
+  }));
+}
+
+/**
+ * Throw a PolicyError naming the first rule that blocks this call
+ */
+export function enforcePolicies(policies: NamedPolicy[], params: ShortcutParamsType): void {
+  // Documentation is never restricted
+  if (params.action === "help") return;
+
+  for (const { name, policy } of policies) {
+    if (policy.allowActions && !policy.allowActions.includes(params.action)) {
+      throw new PolicyError(
+        name,
+        "allowActions",
+        `action "${params.action}" is not allowed. Allowed: ${policy.allowActions.join(", ") || "none"}`
+      );
+    }
+    if (policy.denyActions?.includes(params.action)) {
+      throw new PolicyError(name, "denyActions", `action "${params.action}" is not allowed`);
+    }
+
+    if (policy.readOnly && isWrite(params) && !params.dryRun) {
+      throw new PolicyError(
+        name,
+        "readOnly",
+        `${describeCall(params)} writes to Shortcut and this connection is read-only. Add "dryRun": true to preview it instead.`
+      );
+    }
+
+    if (params.action === "api" && policy.api) {
+      const path = resolveApiPath(params.path ?? "");
+      checkApiRules(name, policy.api, (params.method ?? "").toUpperCase(), path);
+    }
+
+  }
+
+  const size = batchSize(params);
+  if (size !== undefined) enforceBatchSize(policies, size);
+}
+
+/**
+ * Throw a PolicyError when a call touches more stories than a policy allows.
+ * Calls whose story count is only known once they run (iteration rollover)
+ * check it themselves.
+ */
+export function enforceBatchSize(policies: NamedPolicy[], count: number): void {
+  for (const { name, policy } of policies) {
+    if (policy.maxBatchSize && count > policy.maxBatchSize) {
+      throw new PolicyError(
+        name,
+        "maxBatchSize",
+        `${count} stories is more than the ${policy.maxBatchSize} allowed per call`
+      );
+    }
+  }
+}
+
+/**
+ * Whether a call changes anything in Shortcut
+ */
+function isWrite(params: ShortcutParamsType): boolean {
+  switch (params.action) {
+    case "update":
+    case "comment":
+    case "create":
+    case "link":
+    case "task":
+    case "undo":
+      return true;
+    case "epic":
+      return params.op !== undefined;
+    case "iteration":
+      return params.op === "rollover";
+    case "comments":
+    case "attachment":
+      return params.op !== undefined && params.op !== "list";
+    case "api":
+      return (params.method ?? "").toUpperCase() !== "GET";
+    default:
+      return false;
+  }
+}
+
+/**
+ * An api path as fetch will send it: dot segments (plain or percent-encoded)
+ * resolved, so rules match the endpoint actually called
+ */
+export function resolveApiPath(path: string): string {
+  const url = new URL(`${API_PREFIX}${path}`, "https://api.invalid");
+  if (!url.pathname.startsWith(`${API_PREFIX}/`)) {
+    throw new Error(`Path ${path} leaves the Shortcut API`);
+  }
+  return url.pathname.slice(API_PREFIX.length) + url.search;
+}
+
+/**
+ * Stories a call names up front: ids, or story_ids in a raw API body
+ */
+function batchSize(params: ShortcutParamsType): number | undefined {
+  if (params.ids) return params.ids.length;
+  if (params.action === "api" && params.query && typeof params.query === "object") {
+    const storyIds = (params.query as Record<string, unknown>).story_ids;
+    if (Array.isArray(storyIds)) return storyIds.length;
+  }
+  return undefined;
+}
+
+function describeCall(params: ShortcutParamsType): string {
+  if (params.action === "api") return `${(params.method ?? "").toUpperCase()} ${params.path}`;
+  return params.op ? `${params.action} (op: ${params.op})` : params.action;
+}
+
+function checkApiRules(
+  name: string,
+  rules: NonNullable<AccessPolicyType["api"]>,
+  method: string,
+  rawPath: string
+): void {
+  const path = rawPath.split("?")[0];
+  const call = `${method} ${path}`;
+
+  const denied = rules.deny?.find((rule) => matchesApiRule(rule, method, path));
+  if (denied) throw new PolicyError(name, "api.deny", `${call} matches "${denied}"`);
+
+  if (rules.allow && !rules.allow.some((rule) => matchesApiRule(rule, method, path))) {
+    throw new PolicyError(
+      name,
+      "api.allow",
+      `${call} matches none of: ${rules.allow.join(", ") || "(nothing allowed)"}`
+    );
+  }
+}
+
+function matchesApiRule(rule: string, method: string, path: string): boolean {
+  const [ruleMethod, rulePath] = rule.split(" ");
+  if (ruleMethod !== "*" && ruleMethod.toUpperCase() !== method) return false;
+
+  const pattern = rulePath
+    .split(/(\*\*|\*)/)
+    .map((part) =>
+      part === "**" ? ".*" : part === "*" ? "[^/]*" : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${pattern}/?$`).test(path);
+}
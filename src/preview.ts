@@ -0,0 +1,115 @@
+/**
+ * StreamShortcut MCP Server - Dry-Run Previews
+ *
+ * Describes story payloads with resolved names so a write can be checked
+ * before it is sent.
+ */
+
+import { ShortcutClient } from "./client";
+import { FieldChange, ShortcutStory, ShortcutEpic } from "./types";
+
+// Fields holding one or more member IDs
+const MEMBER_FIELDS = new Set([
+  "owner_ids",
+  "owner_ids_add",
+  "owner_ids_remove",
+  "follower_ids",
+  "follower_ids_add",
+  "follower_ids_remove",
+  "requested_by_id",
+]);
+
+/**
+ * Describe every field of a payload as it would be written
+ */
+export async function describePayload(
+  client: ShortcutClient,
+  input: Record<string, unknown>
+): Promise<FieldChange[]> {
+  const changes: FieldChange[] = [];
+  for (const [field, value] of Object.entries(input)) {
+    changes.push({ field, after: await describeValue(client, field, value) });
+  }
+  return changes;
+}
+
+/**
+ * Describe each field of a payload against the story's (or epic's) current value
+ */
+export async function diffStory(
+  client: ShortcutClient,
+  story: ShortcutStory | ShortcutEpic,
+  input: Record<string, unknown>
+): Promise<FieldChange[]> {
+  const current = story as unknown as Record<string, unknown>;
+  const changes: FieldChange[] = [];
+
+  for (const [field, value] of Object.entries(input)) {
+    const before = await describeValue(client, field, current[field]);
+    const after = await describeValue(client, field, value);
+    changes.push({ field, before, after: before === after ? `${after} (unchanged)` : after });
+  }
+
+  return changes;
+}
+
+/**
+ * Render a story field value, replacing IDs with names
+ */
+async function describeValue(
+  client: ShortcutClient,
+  field: string,
+  value: unknown
+): Promise<string> {
+  if (value === undefined || value === null) return "none";
+
+  if (field === "workflow_state_id" && typeof value === "number") {
+    return `${await client.getStateName(value)} (${value})`;
+  }
+
+  if (MEMBER_FIELDS.has(field)) {
+    const ids = Array.isArray(value) ? value : [value];
+    if (ids.length === 0) return "none";
+    const members = await client.getMembers();
+    return ids
+      .map((id) => {
+        const member = members.find((m) => m.id === id);
+        return member ? `${member.profile.name} (@${member.profile.mention_name})` : String(id);
+      })
+      .join(", ");
+  }
+
+  if (field.startsWith("labels") && Array.isArray(value)) {
+    if (value.length === 0) return "none";
+    return value.map((l: { name: string }) => l.name).join(", ");
+  }
+
+  if (field === "iteration_id" && typeof value === "number") {
+    const iteration = (await client.getIterations()).find((i) => i.id === value);
+    return iteration ? `${iteration.name} (${value})` : String(value);
+  }
+
+  if (field === "epic_state_id" && typeof value === "number") {
+    const { epic_states } = await client.getEpicWorkflow();
+    const state = epic_states.find((st) => st.id === value);
+    return state ? `${state.name} (${value})` : String(value);
+  }
+
+  if (field === "objective_ids" && Array.isArray(value)) {
+    if (value.length === 0) return "none";
+    const objectives = await client.getObjectives();
+    return value
+      .map((id) => {
+        const objective = objectives.find((o) => o.id === id);
+        return objective ? `${objective.name} (${id})` : String(id);
+      })
+      .join(", ");
+  }
+
+  if (field === "epic_id" && typeof value === "number") {
+    const epic = (await client.getEpics()).find((e) => e.id === value);
+    return epic ? `${epic.name} (${value})` : String(value);
+  }
+
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
@@ -0,0 +1,129 @@
+/**
+ * StreamShortcut MCP Server - Prompts
+ *
+ * Ready-made prompts for common flows. Each gathers what it needs through
+ * the same actions as the tool and hands it to the model with instructions,
+ * saving the round trips of fetching it call by call.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ActionRunner, Env, ShortcutParamsType } from "./types";
+
+// Stories or events included in a prompt
+const PROMPT_LIMIT = 50;
+
+/**
+ * Register the prompts on the server
+ */
+export function registerPrompts(server: McpServer, run: ActionRunner, env: Env): void {
+  server.registerPrompt(
+    "standup-summary",
+    {
+      title: "Standup summary",
+      description: "Summarize your stories and recent activity as a standup update",
+      argsSchema: {
+        member: z.string().optional().describe("Mention name to summarize instead of yourself"),
+        since: z.string().optional().describe('How far back to look (default "yesterday")'),
+      },
+    },
+    async ({ member, since }) => {
+      const stories = await gather(run, {
+        action: "search",
+        query: member ? `owner:${member.replace(/^@/, "")}` : undefined,
+        limit: PROMPT_LIMIT,
+      });
+      // Activity comes from webhooks, which not every deployment receives
+      const activity =
+        env.ACTIVITY && env.SHORTCUT_WEBHOOK_SECRET
+          ? await gather(run, { action: "activity", since: since ?? "yesterday", limit: PROMPT_LIMIT })
+          : undefined;
+
+      return message(
+        [
+          `Write a standup update for ${member ? `@${member.replace(/^@/, "")}` : "me"} with three short sections: Done, Doing and Blockers.`,
+          "Base it only on the data below. Mention stories as sc-<id> with their names, keep each item to one line, and leave out stories with nothing to report.",
+          "",
+          "## Stories",
+          stories,
+          ...(activity
+            ? ["", `## Workspace activity since ${since ?? "yesterday"}`, activity]
+            : []),
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "triage-new-bugs",
+    {
+      title: "Triage new bugs",
+      description: "Review unstarted bugs and propose priority, owner and next state for each",
+      argsSchema: {
+        team: z.string().optional().describe("Only bugs for this team"),
+      },
+    },
+    async ({ team }) => {
+      const query = `type:bug is:unstarted${team ? ` team:"${team}"` : ""}`;
+      const bugs = await gather(run, { action: "search", query, limit: PROMPT_LIMIT });
+
+      return message(
+        [
+          "Triage these new bugs. For each one, in order of urgency:",
+          "- say how severe it looks and why, in one line",
+          "- suggest an owner, estimate and labels, and whether it should move to a started state",
+          "- flag likely duplicates of each other",
+          "",
+          'Then list the shortcut tool calls that would apply your suggestions (e.g. {"action": "update", "id": "704", "owner": "alice", "estimate": 2}), with "dryRun": true. Don\'t run them until I confirm.',
+          "",
+          `## Bugs (\`${query}\`)`,
+          bugs,
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "write-story-from-description",
+    {
+      title: "Write story from description",
+      description: "Turn a rough description into a well-formed story, ready to create",
+      argsSchema: {
+        description: z.string().describe("What the story is about, in your own words"),
+        team: z.string().optional().describe("Team the story belongs to"),
+      },
+    },
+    async ({ description, team }) =>
+      message(
+        [
+          "Write a Shortcut story from the description below:",
+          "- a short imperative name (under 80 characters)",
+          "- the type: feature, bug or chore",
+          "- a markdown description with context, acceptance criteria as a checklist and, for bugs, steps to reproduce",
+          "- a suggested estimate and labels, if the description supports them",
+          "",
+          `Then show the shortcut tool call that creates it (${JSON.stringify({
+            action: "create",
+            name: "...",
+            type: "feature",
+            description: "...",
+            ...(team ? { team } : {}),
+            dryRun: true,
+          })}) and wait for me to confirm before creating it without dryRun.`,
+          "",
+          "## Description",
+          description,
+        ].join("\n")
+      )
+  );
+}
+
+async function gather(run: ActionRunner, params: ShortcutParamsType): Promise<string> {
+  const result = await run(params);
+  return result.content.map((c) => c.text).join("\n");
+}
+
+function message(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
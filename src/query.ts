@@ -0,0 +1,272 @@
+/**
+ * StreamShortcut MCP Server - Search Query Compiler
+ *
+ * Turns a structured filter into Shortcut search syntax
+ * (https://help.shortcut.com/hc/en-us/articles/360000046646). Every name is
+ * resolved against the workspace first, so a typo fails loudly instead of
+ * silently broadening the search.
+ */
+
+import { z } from "zod";
+import { ShortcutClient } from "./client";
+import { ResolutionError } from "./errors";
+import { closeMatches } from "./resolver";
+
+const NameList = z.union([z.string(), z.array(z.string())]);
+
+// "2025-01-31", "today", "yesterday", "7d" (days ago), or {from, to}
+const DateRange = z.union([
+  z.string(),
+  z.object({ from: z.string().optional(), to: z.string().optional() }).strict(),
+]);
+
+const NumberRange = z.union([
+  z.number(),
+  z.object({ min: z.number().optional(), max: z.number().optional() }).strict(),
+]);
+
+const HAS_FLAGS = [
+  "attachment",
+  "branch",
+  "comment",
+  "commit",
+  "deadline",
+  "epic",
+  "estimate",
+  "label",
+  "owner",
+  "pr",
+  "task",
+] as const;
+
+const IS_FLAGS = [
+  "archived",
+  "blocked",
+  "blocker",
+  "done",
+  "overdue",
+  "started",
+  "unstarted",
+  "unestimated",
+] as const;
+
+const FilterFields = {
+  text: z.string().optional(),
+  owner: NameList.optional(),
+  requester: NameList.optional(),
+  label: NameList.optional(),
+  team: NameList.optional(),
+  state: NameList.optional(),
+  type: z.enum(["feature", "bug", "chore"]).optional(),
+  epic: z.union([z.number(), z.string()]).optional(),
+  iteration: z.union([z.number(), z.string()]).optional(),
+  archived: z.boolean().optional(),
+  created: DateRange.optional(),
+  updated: DateRange.optional(),
+  completed: DateRange.optional(),
+  estimate: NumberRange.optional(),
+  has: z.union([z.enum(HAS_FLAGS), z.array(z.enum(HAS_FLAGS))]).optional(),
+  is: z.union([z.enum(IS_FLAGS), z.array(z.enum(IS_FLAGS))]).optional(),
+};
+
+const NegatedFilter = z.object(FilterFields).strict();
+
+export const SearchFilter = z
+  .object({ ...FilterFields, not: NegatedFilter.optional() })
+  .strict();
+
+export type SearchFilterType = z.infer<typeof SearchFilter>;
+type FilterFieldsType = z.infer<typeof NegatedFilter>;
+
+/**
+ * Compile a structured filter into a Shortcut search string
+ */
+export async function compileQuery(
+  client: ShortcutClient,
+  input: Record<string, unknown>
+): Promise<string> {
+  const parsed = SearchFilter.safeParse(input);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) =>
+      i.path.length > 0 ? `${i.path.join(".")}: ${i.message}` : i.message
+    );
+    throw new Error(`Invalid query: ${issues.join("; ")}`);
+  }
+
+  const { not, ...filter } = parsed.data;
+  const terms = await compileTerms(client, filter, false);
+  if (not) terms.push(...(await compileTerms(client, not, true)));
+
+  if (terms.length === 0) throw new Error("Invalid query: no filters given");
+  return terms.join(" ");
+}
+
+async function compileTerms(
+  client: ShortcutClient,
+  filter: FilterFieldsType,
+  negate: boolean
+): Promise<string[]> {
+  const terms: string[] = [];
+
+  // A leading "!" on any name negates just that term
+  const add = (operator: string, value: string, negated = false) => {
+    terms.push(`${negate !== negated ? "!" : ""}${operator}:${value}`);
+  };
+
+  for (const raw of toList(filter.owner)) {
+    const [name, negated] = splitNegation(raw);
+    add("owner", await resolveMemberMention(client, name), negated);
+  }
+  for (const raw of toList(filter.requester)) {
+    const [name, negated] = splitNegation(raw);
+    add("requester", await resolveMemberMention(client, name), negated);
+  }
+  for (const raw of toList(filter.label)) {
+    const [name, negated] = splitNegation(raw);
+    add("label", quote(await resolveLabel(client, name)), negated);
+  }
+  for (const raw of toList(filter.team)) {
+    const [name, negated] = splitNegation(raw);
+    add("team", await resolveTeam(client, name), negated);
+  }
+  for (const raw of toList(filter.state)) {
+    const [name, negated] = splitNegation(raw);
+    add("state", quote(await resolveStateName(client, name)), negated);
+  }
+
+  if (filter.type) add("type", filter.type);
+  if (filter.epic !== undefined) add("epic", String(await resolveEpicId(client, filter.epic)));
+  if (filter.iteration !== undefined) {
+    add("iteration", String(await resolveIterationId(client, filter.iteration)));
+  }
+
+  if (filter.archived !== undefined) add("is", "archived", !filter.archived);
+  for (const flag of toList(filter.is)) add("is", flag);
+  for (const flag of toList(filter.has)) add("has", flag);
+
+  if (filter.created) add("created", dateRange(filter.created));
+  if (filter.updated) add("updated", dateRange(filter.updated));
+  if (filter.completed) add("completed", dateRange(filter.completed));
+  if (filter.estimate !== undefined) add("estimate", numberRange(filter.estimate));
+
+  if (filter.text) terms.push(negate ? `!${quote(filter.text)}` : filter.text);
+
+  return terms;
+}
+
+// Name resolution
+
+async function resolveMemberMention(client: ShortcutClient, input: string): Promise<string> {
+  if (input === "me") {
+    const member = await client.getCurrentMember();
+    return member.profile.mention_name;
+  }
+
+  const memberId = await client.resolveMember(input);
+  const members = await client.getMembers();
+  const match = members.find((m) => m.id === memberId);
+  if (match) return match.profile.mention_name;
+
+  const names = members.flatMap((m) => [m.profile.mention_name, m.profile.name]);
+  throw new ResolutionError("member", input, closeMatches(input, names));
+}
+
+async function resolveLabel(client: ShortcutClient, input: string): Promise<string> {
+  const labels = await client.getLabels();
+  const match = labels.find((l) => l.name.toLowerCase() === input.toLowerCase());
+  if (match) return match.name;
+
+  throw new ResolutionError("label", input, closeMatches(input, labels.map((l) => l.name)));
+}
+
+async function resolveTeam(client: ShortcutClient, input: string): Promise<string> {
+  const groups = await client.getGroups();
+  const lower = input.toLowerCase();
+  const match = groups.find(
+    (g) => g.mention_name.toLowerCase() === lower || g.name.toLowerCase() === lower
+  );
+  if (match) return match.mention_name;
+
+  const names = groups.flatMap((g) => [g.mention_name, g.name]);
+  throw new ResolutionError("team", input, closeMatches(input, names));
+}
+
+async function resolveStateName(client: ShortcutClient, input: string): Promise<string> {
+  const stateId = await client.resolveState(input);
+  if (stateId) return client.getStateName(stateId);
+
+  const names = await client.getAllStateNames();
+  throw new ResolutionError("state", input, closeMatches(input, names));
+}
+
+async function resolveEpicId(client: ShortcutClient, input: number | string): Promise<number> {
+  if (typeof input === "number" || /^\d+$/.test(input)) return Number(input);
+
+  const epics = await client.getEpics();
+  const match = epics.find((e) => e.name.toLowerCase() === input.toLowerCase());
+  if (match) return match.id;
+
+  throw new ResolutionError("epic", input, closeMatches(input, epics.map((e) => e.name)));
+}
+
+async function resolveIterationId(
+  client: ShortcutClient,
+  input: number | string
+): Promise<number> {
+  if (typeof input === "number" || /^\d+$/.test(input)) return Number(input);
+
+  const iterations = await client.getIterations();
+  const match = iterations.find((i) => i.name.toLowerCase() === input.toLowerCase());
+  if (match) return match.id;
+
+  const names = iterations.map((i) => i.name);
+  throw new ResolutionError("iteration", input, closeMatches(input, names));
+}
+
+// Syntax helpers
+
+function toList<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function splitNegation(value: string): [string, boolean] {
+  return value.startsWith("!") ? [value.slice(1), true] : [value, false];
+}
+
+function quote(value: string): string {
+  return /[\s:"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+}
+
+function dateRange(range: string | { from?: string; to?: string }): string {
+  if (typeof range === "string") {
+    if (range.includes("..")) {
+      const [from, to] = range.split("..");
+      return `${normalizeDate(from)}..${normalizeDate(to)}`;
+    }
+    return normalizeDate(range);
+  }
+  return `${normalizeDate(range.from)}..${normalizeDate(range.to)}`;
+}
+
+function normalizeDate(value: string | undefined): string {
+  if (!value || value === "*") return "*";
+  if (value === "today" || value === "yesterday") return value;
+
+  // Relative days, e.g. "7d" = seven days ago
+  const relative = value.match(/^(\d+)d$/);
+  if (relative) {
+    const date = new Date(Date.now() - Number(relative[1]) * 86400000);
+    return date.toISOString().slice(0, 10);
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`Invalid date "${value}". Use YYYY-MM-DD, today, yesterday or Nd.`);
+  }
+  return value;
+}
+
+function numberRange(range: number | { min?: number; max?: number }): string {
+  if (typeof range === "number") return String(range);
+  return `${range.min ?? "*"}..${range.max ?? "*"}`;
+}
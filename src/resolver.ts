@@ -0,0 +1,307 @@
+/**
+ * StreamShortcut MCP Server - Name Resolution
+ *
+ * Matches are scored: exact (name, mention, email or ID) beats prefix beats
+ * substring beats alias. The best score wins; a tie between different
+ * things is reported as ambiguous rather than guessed.
+ */
+
+import { AmbiguityError } from "./errors";
+import {
+  ShortcutMember,
+  ShortcutGroup,
+  ShortcutIteration,
+  ShortcutTask,
+  ShortcutEpicState,
+  ShortcutObjective,
+  ShortcutWorkflow,
+  ShortcutWorkflowState,
+} from "./types";
+
+const SCORE = {
+  exact: 4,
+  prefix: 3,
+  substring: 2,
+  alias: 1,
+} as const;
+
+// Common names for states, grouped by the state type they usually mean
+const STATE_ALIASES: Array<{ type: ShortcutWorkflowState["type"]; names: string[] }> = [
+  { type: "done", names: ["done", "complete", "completed", "finished", "deployed", "closed"] },
+  { type: "started", names: ["in progress", "started", "doing", "wip", "in prog", "active"] },
+  { type: "unstarted", names: ["ready", "todo", "to do", "backlog", "open", "unstarted"] },
+];
+
+interface Scored<T> {
+  value: T;
+  score: number;
+  // Shown when reporting ambiguity
+  label: string;
+  // Candidates sharing a key are the same choice (e.g. "Done" in two workflows)
+  key: string;
+}
+
+/**
+ * Resolve a workflow state by name or ID, optionally within one workflow
+ */
+export function resolveStateMatch(
+  workflows: ShortcutWorkflow[],
+  input: string,
+  workflowId?: number
+): ShortcutWorkflowState | null {
+  const scope = workflowId ? workflows.filter((wf) => wf.id === workflowId) : workflows;
+  const lower = input.trim().toLowerCase();
+  const multiple = scope.length > 1;
+
+  const candidates: Scored<ShortcutWorkflowState>[] = [];
+  for (const wf of scope) {
+    for (const state of wf.states) {
+      const name = state.name.toLowerCase();
+      const score =
+        String(state.id) === lower || name === lower
+          ? SCORE.exact
+          : name.startsWith(lower)
+            ? SCORE.prefix
+            : name.includes(lower)
+              ? SCORE.substring
+              : 0;
+      if (score > 0) {
+        candidates.push({
+          value: state,
+          score,
+          label: multiple ? `${state.name} (${wf.name})` : state.name,
+          key: name,
+        });
+      }
+    }
+  }
+
+  if (candidates.length === 0) {
+    const alias = STATE_ALIASES.find((group) => group.names.includes(lower));
+    if (alias) {
+      for (const wf of scope) {
+        // Prefer states named like an alias, else any state of the alias type
+        const named = wf.states.filter((s) =>
+          alias.names.some((a) => s.name.toLowerCase() === a)
+        );
+        const matches = named.length > 0 ? named : wf.states.filter((s) => s.type === alias.type);
+        for (const state of matches) {
+          candidates.push({
+            value: state,
+            score: SCORE.alias,
+            label: multiple ? `${state.name} (${wf.name})` : state.name,
+            key: state.name.toLowerCase(),
+          });
+        }
+      }
+    }
+  }
+
+  return pickBest("state", input, candidates);
+}
+
+/**
+ * Resolve a member by ID, email, mention name or display name
+ */
+export function resolveMemberMatch(
+  members: ShortcutMember[],
+  input: string
+): ShortcutMember | null {
+  const lower = input.trim().toLowerCase().replace(/^@/, "");
+
+  const candidates: Scored<ShortcutMember>[] = [];
+  for (const member of members) {
+    if (member.id.toLowerCase() === lower) {
+      candidates.push({ value: member, score: SCORE.exact + 1, label: member.profile.name, key: member.id });
+      continue;
+    }
+    if (member.disabled) continue;
+
+    const name = member.profile.name.toLowerCase();
+    const mention = member.profile.mention_name.toLowerCase();
+    const email = member.profile.email_address?.toLowerCase();
+
+    const score =
+      email === lower || mention === lower || name === lower
+        ? SCORE.exact
+        : mention.startsWith(lower) || name.startsWith(lower)
+          ? SCORE.prefix
+          : mention.includes(lower) || name.includes(lower)
+            ? SCORE.substring
+            : 0;
+    if (score > 0) {
+      candidates.push({
+        value: member,
+        score,
+        label: `${member.profile.name} (@${member.profile.mention_name})`,
+        key: member.id,
+      });
+    }
+  }
+
+  return pickBest("member", input, candidates);
+}
+
+/**
+ * Resolve a workflow by name or ID
+ */
+export function resolveWorkflowMatch(
+  workflows: ShortcutWorkflow[],
+  input: string
+): ShortcutWorkflow | null {
+  return resolveNamed("workflow", workflows, input, (wf) => [String(wf.id), wf.name]);
+}
+
+/**
+ * Resolve a team (group) by name, mention name or ID
+ */
+export function resolveGroupMatch(groups: ShortcutGroup[], input: string): ShortcutGroup | null {
+  const active = groups.filter((g) => !g.archived);
+  return resolveNamed("team", active, input, (g) => [g.id, g.mention_name, g.name]);
+}
+
+/**
+ * Resolve an iteration by name, ID, "current", "next" or "previous".
+ * Next and previous are relative to the current iteration, or to today
+ * when none is running.
+ */
+export function resolveIterationMatch(
+  iterations: ShortcutIteration[],
+  input: string,
+  today = new Date().toISOString().slice(0, 10)
+): ShortcutIteration | null {
+  const keyword = input.trim().toLowerCase();
+  const byStart = [...iterations].sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  if (keyword === "current" || keyword === "next" || keyword === "previous") {
+    const started = byStart.filter((i) => i.status === "started");
+    if (started.length > 1) {
+      throw new AmbiguityError("iteration", "current", started.map((i) => i.name));
+    }
+    const current = started[0];
+    if (keyword === "current") return current ?? null;
+
+    if (keyword === "next") {
+      const after = current ? current.end_date : today;
+      return byStart.find((i) => i.status === "unstarted" && i.start_date >= after) ??
+        byStart.find((i) => i.status === "unstarted") ??
+        null;
+    }
+
+    const before = current ? current.start_date : today;
+    const done = byStart.filter((i) => i.status === "done" && i.end_date <= before);
+    return done[done.length - 1] ?? null;
+  }
+
+  return resolveNamed("iteration", iterations, input, (i) => [String(i.id), i.name]);
+}
+
+/**
+ * Resolve an epic state by name or ID
+ */
+export function resolveEpicStateMatch(
+  states: ShortcutEpicState[],
+  input: string
+): ShortcutEpicState | null {
+  return resolveNamed("epic state", states, input, (st) => [String(st.id), st.name]);
+}
+
+/**
+ * Resolve an objective by name or ID
+ */
+export function resolveObjectiveMatch(
+  objectives: ShortcutObjective[],
+  input: string
+): ShortcutObjective | null {
+  return resolveNamed("objective", objectives, input, (o) => [String(o.id), o.name]);
+}
+
+/**
+ * Resolve a story task by its text
+ */
+export function resolveTaskMatch(tasks: ShortcutTask[], input: string): ShortcutTask | null {
+  return resolveNamed("task", tasks, input, (t) => [String(t.id), t.description]);
+}
+
+/**
+ * Score items on their identifying strings (exact > prefix > substring)
+ */
+function resolveNamed<T>(
+  kind: string,
+  items: T[],
+  input: string,
+  names: (item: T) => string[]
+): T | null {
+  const lower = input.trim().toLowerCase().replace(/^@/, "");
+
+  const candidates: Scored<T>[] = [];
+  for (const item of items) {
+    const [id, ...rest] = names(item);
+    const all = [id, ...rest].map((n) => n.toLowerCase());
+    const score = all.includes(lower)
+      ? SCORE.exact
+      : rest.some((n) => n.toLowerCase().startsWith(lower))
+        ? SCORE.prefix
+        : rest.some((n) => n.toLowerCase().includes(lower))
+          ? SCORE.substring
+          : 0;
+    if (score > 0) {
+      candidates.push({ value: item, score, label: rest[rest.length - 1], key: id });
+    }
+  }
+
+  return pickBest(kind, input, candidates);
+}
+
+/**
+ * Highest-scoring candidate, or an AmbiguityError on a tie
+ */
+function pickBest<T>(kind: string, input: string, candidates: Scored<T>[]): T | null {
+  if (candidates.length === 0) return null;
+
+  const best = Math.max(...candidates.map((c) => c.score));
+  const top = candidates.filter((c) => c.score === best);
+  const distinct = new Set(top.map((c) => c.key));
+
+  if (distinct.size > 1) {
+    throw new AmbiguityError(kind, input, top.map((c) => c.label));
+  }
+  return top[0].value;
+}
+
+/**
+ * Candidates that look like the input, best first
+ */
+export function closeMatches(input: string, candidates: string[], max = 5): string[] {
+  const lower = input.toLowerCase();
+  const threshold = Math.max(2, Math.floor(lower.length / 3));
+
+  return [...new Set(candidates)]
+    .map((candidate) => {
+      const c = candidate.toLowerCase();
+      const distance = c.includes(lower) || lower.includes(c) ? 0 : editDistance(lower, c);
+      return { candidate, distance };
+    })
+    .filter((m) => m.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, max)
+    .map((m) => m.candidate);
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = row;
+  }
+
+  return prev[b.length];
+}
@@ -0,0 +1,81 @@
+/**
+ * StreamShortcut MCP Server - Resources
+ *
+ * Stories, epics and iterations as MCP resources, so clients can attach them
+ * as context without a tool call. Each read runs the matching action, so
+ * access policies apply and the text is the same the tool would return.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { ActionRunner, ShortcutParamsType } from "./types";
+
+const MIME_TYPE = "text/markdown";
+
+/**
+ * Register the shortcut:// resources on the server
+ */
+export function registerResources(server: McpServer, run: ActionRunner): void {
+  server.registerResource(
+    "story",
+    new ResourceTemplate("shortcut://story/{id}", { list: undefined }),
+    {
+      title: "Story",
+      description: "A story with its state, owners, links, VCS activity and comments (id: 704 or sc-704)",
+      mimeType: MIME_TYPE,
+    },
+    (uri, { id }) => read(run, uri, { action: "get", id: String(id) })
+  );
+
+  server.registerResource(
+    "epic",
+    new ResourceTemplate("shortcut://epic/{id}", { list: undefined }),
+    {
+      title: "Epic",
+      description: "An epic with its progress and stories",
+      mimeType: MIME_TYPE,
+    },
+    (uri, { id }) => read(run, uri, { action: "epic", id: String(id) })
+  );
+
+  server.registerResource(
+    "current-iteration",
+    "shortcut://iteration/current",
+    {
+      title: "Current iteration",
+      description: "The current iteration's progress and stories",
+      mimeType: MIME_TYPE,
+    },
+    (uri) => read(run, uri, { action: "iteration", id: "current" })
+  );
+
+  server.registerResource(
+    "iteration",
+    new ResourceTemplate("shortcut://iteration/{id}", { list: undefined }),
+    {
+      title: "Iteration",
+      description: "An iteration by ID or name",
+      mimeType: MIME_TYPE,
+    },
+    (uri, { id }) => read(run, uri, { action: "iteration", id: String(id) })
+  );
+
+  server.registerResource(
+    "my-stories",
+    "shortcut://me/stories",
+    {
+      title: "My stories",
+      description: "Stories owned by the connected member",
+      mimeType: MIME_TYPE,
+    },
+    (uri) => read(run, uri, { action: "search" })
+  );
+}
+
+async function read(run: ActionRunner, uri: URL, params: ShortcutParamsType): Promise<ReadResourceResult> {
+  const result = await run(params);
+  const text = result.content.map((c) => c.text).join("\n");
+  // Surfaced to the client as a resource read error
+  if (result.isError) throw new Error(text.replace(/^Error: /, ""));
+  return { contents: [{ uri: uri.href, mimeType: MIME_TYPE, text }] };
+}
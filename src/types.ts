@@ -3,6 +3,10 @@
  */
 
 import { z } from "zod";
+import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import type { ActivityStore } from "./activity";
+import type { AuditLog } from "./audit";
+import type { NamedPolicy } from "./policy";
 
 // Server metadata
 export const SERVER_NAME = "streamshortcut";
@@ -12,6 +16,42 @@ export const SERVER_VERSION = "1.0.0";
 // Note: SHORTCUT_API_TOKEN is provided by user via X-Shortcut-Token header
 export interface Env {
   // No server-side secrets - users provide their own token
+  // Optional KV namespace for sharing cached metadata across isolates
+  SHORTCUT_CACHE?: KVNamespace;
+  // Shared secret configured on the Shortcut webhook; enables /webhooks/shortcut
+  SHORTCUT_WEBHOOK_SECRET?: string;
+  // Stores normalized webhook events for the activity action
+  ACTIVITY?: DurableObjectNamespace<ActivityStore>;
+  // Enables OAuth mode: clients, grants and encrypted tokens live here
+  OAUTH_KV?: KVNamespace;
+  // Injected by the OAuth provider when OAUTH_KV is bound
+  OAUTH_PROVIDER?: OAuthHelpers;
+  // Access policy JSON; takes precedence over the "policy" key in POLICY_KV
+  SHORTCUT_POLICY?: string;
+  POLICY_KV?: KVNamespace;
+  // Records every write made through the server (the audit action)
+  AUDIT?: DurableObjectNamespace<AuditLog>;
+}
+
+// How the MCP caller authenticated
+export interface AuthSession {
+  mode: "header" | "oauth";
+  // OAuth mode only
+  userId?: string;
+  clientId?: string;
+  // Access policies for this route and token; all must allow a call
+  policies: NamedPolicy[];
+  // Identifies the caller's token in the audit log (undo picks their own writes)
+  tokenFingerprint: string;
+}
+
+// Stored with each OAuth grant and passed to the MCP handler as ctx.props
+export interface OAuthProps extends Record<string, unknown> {
+  token: string;
+  userId: string;
+  clientId: string;
+  mentionName: string;
+  workspace?: string;
 }
 
 // MCP Tool result type
@@ -20,6 +60,9 @@ export interface ToolResult {
   isError?: boolean;
 }
 
+// Runs an action for the current connection (policies, audit and cache scoping applied)
+export type ActionRunner = (params: ShortcutParamsType) => Promise<ToolResult>;
+
 // Shortcut API types
 export interface ShortcutMember {
   id: string;
@@ -29,6 +72,9 @@ export interface ShortcutMember {
     email_address?: string;
   };
   role: string;
+  disabled?: boolean;
+  // Only returned by GET /member
+  workspace2?: { url_slug: string };
 }
 
 export interface ShortcutWorkflowState {
@@ -41,7 +87,13 @@ export interface ShortcutWorkflowState {
 export interface ShortcutWorkflow {
   id: number;
   name: string;
+  description?: string;
   states: ShortcutWorkflowState[];
+  // State new stories land in unless told otherwise
+  default_state_id: number;
+  // Legacy single-team association
+  team_id?: number;
+  project_ids?: number[];
 }
 
 export interface ShortcutLabel {
@@ -50,21 +102,135 @@ export interface ShortcutLabel {
   color: string;
 }
 
+export interface ShortcutGroup {
+  id: string;
+  name: string;
+  mention_name: string;
+  archived?: boolean;
+  member_ids?: string[];
+  // Workflows this team uses; the default is picked for new stories
+  workflow_ids?: number[];
+  default_workflow_id?: number | null;
+}
+
+export interface ShortcutIteration {
+  id: number;
+  name: string;
+  status: "unstarted" | "started" | "done";
+  start_date: string;
+  end_date: string;
+  app_url: string;
+}
+
 export interface ShortcutStory {
   id: number;
   name: string;
   story_type: "feature" | "bug" | "chore";
+  workflow_id: number;
   workflow_state_id: number;
   estimate?: number;
   epic_id?: number;
   iteration_id?: number;
   owner_ids: string[];
+  follower_ids: string[];
+  requested_by_id: string;
+  group_id?: string | null;
+  deadline?: string | null;
   labels: ShortcutLabel[];
   description?: string;
   app_url: string;
   started: boolean;
   completed: boolean;
+  started_at?: string | null;
+  completed_at?: string | null;
+  updated_at?: string;
+  archived?: boolean;
   comments?: ShortcutComment[];
+  story_links?: ShortcutStoryLink[];
+  tasks?: ShortcutTask[];
+  branches?: ShortcutBranch[];
+  pull_requests?: ShortcutPullRequest[];
+  commits?: ShortcutCommit[];
+  // Branch name in the workspace's configured VCS format
+  formatted_vcs_branch_name?: string | null;
+  files?: ShortcutFile[];
+  linked_files?: ShortcutLinkedFile[];
+  external_links?: string[];
+}
+
+// A file uploaded to Shortcut
+export interface ShortcutFile {
+  id: number;
+  name: string;
+  filename: string;
+  // Bytes
+  size: number;
+  content_type: string;
+  url: string;
+  created_at: string;
+  uploader_id?: string;
+}
+
+// A file hosted elsewhere (Google Drive, Dropbox, a URL, ...) linked to stories
+export interface ShortcutLinkedFile {
+  id: number;
+  name: string;
+  url: string;
+  type: string;
+  size?: number | null;
+  content_type?: string | null;
+}
+
+export interface ShortcutBranch {
+  id: number;
+  name: string;
+  url: string;
+  deleted: boolean;
+  pull_requests: ShortcutPullRequest[];
+}
+
+export interface ShortcutPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  url: string;
+  branch_name: string;
+  target_branch_name: string;
+  draft: boolean;
+  closed: boolean;
+  merged: boolean;
+  num_added?: number;
+  num_removed?: number;
+}
+
+export interface ShortcutCommit {
+  id: number;
+  hash: string;
+  message: string;
+  url: string;
+  author_email?: string;
+  timestamp: string;
+}
+
+export type ShortcutLinkVerb = "blocks" | "duplicates" | "relates to";
+
+export interface ShortcutStoryLink {
+  id: number;
+  // Whether the story holding this link is the subject or object of the verb
+  type: "subject" | "object";
+  verb: ShortcutLinkVerb;
+  subject_id: number;
+  object_id: number;
+}
+
+export interface ShortcutTask {
+  id: number;
+  story_id: number;
+  description: string;
+  complete: boolean;
+  owner_ids: string[];
+  position: number;
+  completed_at?: string | null;
 }
 
 export interface ShortcutComment {
@@ -72,40 +238,306 @@ export interface ShortcutComment {
   text: string;
   author_id: string;
   created_at: string;
+  updated_at?: string;
+  // Set on replies in a thread
+  parent_id?: number | null;
+  deleted?: boolean;
+  reactions?: ShortcutReaction[];
+}
+
+export interface ShortcutReaction {
+  // Colon-wrapped name, e.g. ":+1:"
+  emoji: string;
+  // Members who reacted
+  permission_ids: string[];
 }
 
 export interface ShortcutEpic {
   id: number;
   name: string;
   state: string;
+  epic_state_id?: number;
+  description?: string;
+  owner_ids?: string[];
+  follower_ids?: string[];
+  deadline?: string | null;
+  planned_start_date?: string | null;
+  completed?: boolean;
+  objective_ids?: number[];
   app_url: string;
   stats?: {
     num_stories_total: number;
     num_stories_done: number;
     num_stories_started: number;
     num_stories_unstarted: number;
+    num_points?: number;
+    num_points_done?: number;
+    num_points_started?: number;
+    num_points_unstarted?: number;
   };
 }
 
+export interface ShortcutEpicState {
+  id: number;
+  name: string;
+  type: "unstarted" | "started" | "done";
+  position: number;
+}
+
+export interface ShortcutEpicWorkflow {
+  id: number;
+  default_epic_state_id: number;
+  epic_states: ShortcutEpicState[];
+}
+
+// Objectives were called milestones in older API versions
+export interface ShortcutObjective {
+  id: number;
+  name: string;
+  state: string;
+  description?: string;
+  completed?: boolean;
+  app_url: string;
+}
+
+// Outgoing webhook body (https://developer.shortcut.com/api/webhook/v1)
+export interface ShortcutWebhookPayload {
+  id: string;
+  changed_at: string;
+  member_id?: string;
+  primary_id?: number;
+  actions: ShortcutWebhookAction[];
+  references?: Array<{ id: number | string; entity_type: string; name: string }>;
+}
+
+export interface ShortcutWebhookAction {
+  id: number;
+  entity_type: string;
+  action: "create" | "update" | "delete";
+  name?: string;
+  app_url?: string;
+  story_id?: number;
+  epic_id?: number;
+  text?: string;
+  author_id?: string;
+  description?: string;
+  changes?: Record<string, { old?: unknown; new?: unknown; adds?: unknown[]; removes?: unknown[] }>;
+}
+
+export type ActivityEventType =
+  | "story_created"
+  | "story_deleted"
+  | "story_archived"
+  | "state_changed"
+  | "owner_changed"
+  | "estimate_changed"
+  | "epic_changed"
+  | "iteration_changed"
+  | "label_changed"
+  | "story_updated"
+  | "comment_added"
+  | "task_completed"
+  | "task_reopened"
+  | "epic_created"
+  | "epic_updated"
+  | "other";
+
+// A webhook action normalized into one thing that happened
+export interface ActivityEvent {
+  id: string;
+  occurred_at: string;
+  // Workspace URL slug, so workspaces sharing a deployment stay apart
+  workspace: string;
+  type: ActivityEventType;
+  story_id: number | null;
+  epic_id: number | null;
+  member_id: string | null;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
 export interface ShortcutSearchResponse {
   data?: ShortcutStory[];
   total?: number;
+  next?: string | null;
+}
+
+// One page of /search/stories results
+export interface ShortcutSearchPage {
+  stories: ShortcutStory[];
+  total: number;
+  // Cursor for the following page, null when exhausted
+  next: string | null;
+}
+
+// A story linked to the one being displayed
+export interface LinkedStory {
+  relation: string;
+  id: number;
+  name?: string;
+  state?: string;
+  completed?: boolean;
+}
+
+// Display names for the IDs on a set of stories, from the metadata cache
+export interface StoryNames {
+  // Member ID -> mention name
+  members: Map<string, string>;
+  states: Map<number, string>;
+  epics: Map<number, string>;
+  iterations: Map<number, string>;
+  teams: Map<string, string>;
+}
+
+// Per-story result of a batch operation
+export interface BatchOutcome {
+  id: number;
+  ok: boolean;
+  error?: string;
+  // The write failed without a response saying so (timeout, network error,
+  // 5xx), so Shortcut may have applied it
+  unknown?: boolean;
+}
+
+// One field of a previewed write, described with resolved names
+export interface FieldChange {
+  field: string;
+  before?: string;
+  after: string;
+}
+
+// A story field's raw API value before and after a write
+export interface AuditChange {
+  story_id: number;
+  field: string;
+  // Absent when the value before the write is unknown (its snapshot failed)
+  before?: unknown;
+  after: unknown;
+}
+
+// One write sent to Shortcut through the server
+export interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  // First characters of the token's SHA-256, enough to tell tokens apart
+  token_fingerprint: string;
+  member_id: string;
+  member_name: string;
+  // The MCP action that made the call
+  action: string;
+  method: string;
+  path: string;
+  story_ids: number[];
+  payload: unknown;
+  changes: AuditChange[];
+  ok: boolean;
+  error: string | null;
+  // Set once the undo action has reverted this entry
+  undone_at: string | null;
+}
+
+// What a mutating action would send, without sending it
+export interface DryRunPlan {
+  method: string;
+  path: string;
+  payload?: unknown;
+  targets: Array<{ label: string; changes: FieldChange[] }>;
 }
 
 // Shortcut action schema - single tool with action dispatch
 export const ShortcutParams = z.object({
-  action: z.enum(["search", "get", "update", "comment", "create", "epic", "api", "help"]),
+  action: z.enum([
+    "search",
+    "get",
+    "update",
+    "comment",
+    "create",
+    "epic",
+    "link",
+    "task",
+    "iteration",
+    "objective",
+    "activity",
+    "comments",
+    "attachment",
+    "branch",
+    "whoami",
+    "logout",
+    "audit",
+    "undo",
+    "api",
+    "help",
+  ]),
   query: z.union([z.string(), z.record(z.unknown())]).optional(),
   id: z.string().optional(),
+  ids: z.array(z.string()).optional(),
   state: z.string().optional(),
   estimate: z.number().optional(),
   owner: z.string().nullable().optional(),
+  owners: z.array(z.string()).optional(),
+  addOwners: z.array(z.string()).optional(),
+  removeOwners: z.array(z.string()).optional(),
+  description: z.string().optional(),
+  labels: z.array(z.string()).optional(),
+  addLabels: z.array(z.string()).optional(),
+  removeLabels: z.array(z.string()).optional(),
+  createLabels: z.boolean().optional(),
+  followers: z.array(z.string()).optional(),
+  requester: z.string().optional(),
+  iteration: z.string().nullable().optional(),
+  deadline: z.string().nullable().optional(),
   type: z.enum(["feature", "bug", "chore"]).optional(),
   name: z.string().optional(),
   body: z.string().optional(),
-  epic: z.number().optional(),
+  epic: z.number().nullable().optional(),
+  objective: z.string().nullable().optional(),
+  since: z.string().optional(),
+  until: z.string().optional(),
+  member: z.string().optional(),
+  workflow: z.string().optional(),
+  team: z.string().optional(),
   method: z.string().optional(),
   path: z.string().optional(),
+  op: z
+    .enum([
+      "add",
+      "remove",
+      "create",
+      "update",
+      "complete",
+      "uncomplete",
+      "edit",
+      "move",
+      "list",
+      "rollover",
+      "reply",
+      "react",
+      "unreact",
+    ])
+    .optional(),
+  verb: z.enum(["blocks", "blocked by", "duplicates", "relates to"]).optional(),
+  target: z.string().optional(),
+  task: z.union([z.number(), z.string()]).optional(),
+  position: z.number().int().positive().optional(),
+  graph: z.enum(["markdown", "mermaid"]).optional(),
+  format: z.enum(["text", "compact", "table", "json", "csv"]).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  detail: z.enum(["brief", "normal", "full"]).optional(),
+  section: z.string().optional(),
+  comment: z.number().int().positive().optional(),
+  emoji: z.string().optional(),
+  file: z.number().int().positive().optional(),
+  filename: z.string().optional(),
+  // Base64 file content (use body for text)
+  content: z.string().optional(),
+  contentType: z.string().optional(),
+  url: z.string().optional(),
+  fields: z.array(z.string()).optional(),
+  refresh: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  all: z.boolean().optional(),
 });
 
 export type ShortcutParamsType = z.infer<typeof ShortcutParams>;
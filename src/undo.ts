@@ -0,0 +1,104 @@
+/**
+ * StreamShortcut MCP Server - Undo
+ *
+ * Reverts a write recorded in the audit log: updated stories get their
+ * previous field values back and created stories are archived. A field that
+ * changed again after the write is left alone and reported instead.
+ */
+
+import { storyField } from "./audit";
+import { AuditChange, AuditEntry, ShortcutStory } from "./types";
+
+// Story fields undo can put back
+const UNDO_FIELDS = new Set([
+  "workflow_state_id",
+  "owner_ids",
+  "estimate",
+  "name",
+  "story_type",
+  "description",
+  "epic_id",
+  "iteration_id",
+  "deadline",
+  "requested_by_id",
+  "follower_ids",
+  "group_id",
+  "labels",
+  "external_links",
+]);
+
+export interface StoryUndo {
+  storyId: number;
+  // Payload restoring the previous values; empty when nothing can be restored
+  input: Record<string, unknown>;
+  reverted: AuditChange[];
+  // Changed again since the write, so left as they are
+  conflicts: AuditChange[];
+  // Recorded but not something undo restores
+  skipped: AuditChange[];
+  // Recorded without the value before the write, so nothing to restore
+  unknown: AuditChange[];
+}
+
+/**
+ * Whether the entry created a story (undone by archiving it)
+ */
+export function isStoryCreate(entry: AuditEntry): boolean {
+  return entry.method === "POST" && entry.path === "/stories";
+}
+
+/**
+ * Whether undo knows how to revert the entry
+ */
+export function isUndoable(entry: AuditEntry): boolean {
+  if (!entry.ok) return false;
+  if (isStoryCreate(entry)) return entry.story_ids.length === 1;
+  return entry.method === "PUT" && entry.changes.length > 0;
+}
+
+/**
+ * Plan the revert of one story's recorded changes against its current state
+ */
+export function planStoryUndo(
+  storyId: number,
+  changes: AuditChange[],
+  current: ShortcutStory
+): StoryUndo {
+  const plan: StoryUndo = {
+    storyId,
+    input: {},
+    reverted: [],
+    conflicts: [],
+    skipped: [],
+    unknown: [],
+  };
+
+  for (const change of changes) {
+    if (!("before" in change)) {
+      plan.unknown.push(change);
+    } else if (!UNDO_FIELDS.has(change.field)) {
+      plan.skipped.push(change);
+    } else if (JSON.stringify(storyField(current, change.field)) !== JSON.stringify(change.after)) {
+      plan.conflicts.push(change);
+    } else {
+      plan.input[change.field] = restoreValue(change.field, change.before);
+      plan.reverted.push(change);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Whether a created story was changed after the entry recorded its creation
+ */
+export function changedSince(story: ShortcutStory, entry: AuditEntry): boolean {
+  if (!story.updated_at) return false;
+  return Date.parse(story.updated_at) > Date.parse(entry.occurred_at);
+}
+
+function restoreValue(field: string, value: unknown): unknown {
+  // Labels are recorded by name and sent back as label objects
+  if (field === "labels") return ((value as string[] | null) ?? []).map((name) => ({ name }));
+  return value;
+}
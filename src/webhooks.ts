@@ -0,0 +1,287 @@
+/**
+ * StreamShortcut MCP Server - Shortcut Webhooks
+ *
+ * Verifies Shortcut's outgoing webhooks and normalizes each action into
+ * typed activity events, which are kept per workspace in the ActivityStore.
+ */
+
+import { activityStore } from "./activity";
+import {
+  ActivityEvent,
+  ActivityEventType,
+  Env,
+  ShortcutWebhookAction,
+  ShortcutWebhookPayload,
+} from "./types";
+
+const SIGNATURE_HEADER = "Payload-Signature";
+
+// Story fields with their own event type; anything else is story_updated
+const STORY_CHANGE_TYPES: Record<string, ActivityEventType> = {
+  workflow_state_id: "state_changed",
+  owner_ids: "owner_changed",
+  estimate: "estimate_changed",
+  epic_id: "epic_changed",
+  iteration_id: "iteration_changed",
+  label_ids: "label_changed",
+  archived: "story_archived",
+};
+
+// Bookkeeping changes that accompany a more specific action in the same payload
+const IGNORED_STORY_CHANGES = new Set(["comment_ids", "task_ids", "position", "updated_at"]);
+
+/**
+ * Handle POST /webhooks/shortcut
+ */
+export async function handleWebhook(request: Request, env: Env): Promise<Response> {
+  if (!env.SHORTCUT_WEBHOOK_SECRET || !env.ACTIVITY) {
+    return jsonResponse({ error: "Webhooks are not configured on this server" }, 404);
+  }
+  if (request.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const body = await request.text();
+  const signature = request.headers.get(SIGNATURE_HEADER);
+  if (!(await verifySignature(body, signature, env.SHORTCUT_WEBHOOK_SECRET))) {
+    return jsonResponse({ error: `Invalid or missing ${SIGNATURE_HEADER} header` }, 401);
+  }
+
+  let payload: ShortcutWebhookPayload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return jsonResponse({ error: "Body is not valid JSON" }, 400);
+  }
+  if (!Array.isArray(payload.actions)) {
+    return jsonResponse({ error: "Body has no actions" }, 400);
+  }
+
+  const events = normalizeWebhook(payload);
+  if (events.length > 0) {
+    await activityStore(env, events[0].workspace).record(events);
+  }
+  return jsonResponse({ received: events.length });
+}
+
+/**
+ * Check the hex HMAC-SHA256 of the raw body against the shared secret
+ */
+export async function verifySignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): Promise<boolean> {
+  const bytes = signature ? hexToBytes(signature.trim()) : null;
+  if (!bytes) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  // verify() compares in constant time
+  return crypto.subtle.verify("HMAC", key, bytes, encoder.encode(body));
+}
+
+/**
+ * Turn a webhook payload into one event per meaningful change
+ */
+export function normalizeWebhook(payload: ShortcutWebhookPayload): ActivityEvent[] {
+  const names = new Map(
+    (payload.references ?? []).map((r) => [`${r.entity_type}:${r.id}`, r.name])
+  );
+  const refName = (entityType: string, id: unknown) =>
+    id === null || id === undefined ? "none" : names.get(`${entityType}:${id}`) ?? String(id);
+
+  const workspace =
+    payload.actions.map((a) => workspaceSlug(a.app_url)).find(Boolean) ?? "default";
+  const events: ActivityEvent[] = [];
+
+  const push = (
+    action: ShortcutWebhookAction,
+    type: ActivityEventType,
+    summary: string,
+    details: Record<string, unknown> = {},
+    storyId: number | null = null,
+    epicId: number | null = null
+  ) => {
+    events.push({
+      id: `${payload.id}:${action.entity_type}:${action.id}:${type}`,
+      occurred_at: payload.changed_at,
+      workspace,
+      type,
+      story_id: storyId,
+      epic_id: epicId,
+      member_id: payload.member_id ?? null,
+      summary,
+      details,
+    });
+  };
+
+  for (const action of payload.actions) {
+    const changes = action.changes ?? {};
+
+    switch (action.entity_type) {
+      case "story": {
+        const epicId = (changes.epic_id?.new as number | undefined) ?? action.epic_id ?? null;
+
+        if (action.action === "create") {
+          push(action, "story_created", `Created "${action.name}"`, {}, action.id, epicId);
+        } else if (action.action === "delete") {
+          push(action, "story_deleted", `Deleted "${action.name}"`, {}, action.id, epicId);
+        } else {
+          const other: string[] = [];
+          for (const [field, change] of Object.entries(changes)) {
+            if (IGNORED_STORY_CHANGES.has(field)) continue;
+            const type = STORY_CHANGE_TYPES[field];
+            if (!type) {
+              other.push(field);
+              continue;
+            }
+            push(
+              action,
+              type,
+              describeStoryChange(field, change, refName),
+              { field, ...change },
+              action.id,
+              epicId
+            );
+          }
+          if (other.length > 0) {
+            push(
+              action,
+              "story_updated",
+              `Updated ${other.join(", ")}`,
+              { fields: other },
+              action.id,
+              epicId
+            );
+          }
+        }
+        break;
+      }
+
+      case "story-comment":
+        if (action.action === "create") {
+          const storyId = action.story_id ?? commentStoryId(payload, action.id) ?? null;
+          push(
+            action,
+            "comment_added",
+            `Comment: ${excerpt(action.text ?? "")}`,
+            { comment_id: action.id, author_id: action.author_id },
+            storyId
+          );
+        }
+        break;
+
+      case "story-task":
+      case "task":
+        if (changes.complete) {
+          const done = Boolean(changes.complete.new);
+          push(
+            action,
+            done ? "task_completed" : "task_reopened",
+            `${done ? "Completed" : "Reopened"} task "${action.description ?? action.id}"`,
+            { task_id: action.id },
+            action.story_id ?? payload.primary_id ?? null
+          );
+        }
+        break;
+
+      case "epic":
+        push(
+          action,
+          action.action === "create" ? "epic_created" : "epic_updated",
+          action.action === "create"
+            ? `Created epic "${action.name}"`
+            : `Updated epic ${Object.keys(changes).join(", ") || action.action}`,
+          { ...changes },
+          null,
+          action.id
+        );
+        break;
+
+      default:
+        push(
+          action,
+          "other",
+          `${action.entity_type} ${action.action}${action.name ? ` "${action.name}"` : ""}`,
+          { entity_type: action.entity_type, entity_id: action.id },
+          action.story_id ?? null
+        );
+    }
+  }
+
+  return events;
+}
+
+function describeStoryChange(
+  field: string,
+  change: { old?: unknown; new?: unknown; adds?: unknown[]; removes?: unknown[] },
+  refName: (entityType: string, id: unknown) => string
+): string {
+  switch (field) {
+    case "workflow_state_id":
+      return `State: ${refName("workflow-state", change.old)} -> ${refName("workflow-state", change.new)}`;
+    case "epic_id":
+      return `Epic: ${refName("epic", change.old)} -> ${refName("epic", change.new)}`;
+    case "iteration_id":
+      return `Iteration: ${refName("iteration", change.old)} -> ${refName("iteration", change.new)}`;
+    case "label_ids":
+      return `Labels: ${listDelta(change, (id) => refName("label", id))}`;
+    // Member IDs are turned into names when the activity is shown
+    case "owner_ids":
+      return `Owners: ${listDelta(change, String)}`;
+    case "archived":
+      return change.new ? "Archived" : "Unarchived";
+    default:
+      return `${field}: ${change.old ?? "none"} -> ${change.new ?? "none"}`;
+  }
+}
+
+function listDelta(
+  change: { adds?: unknown[]; removes?: unknown[] },
+  name: (id: unknown) => string
+): string {
+  const parts = [
+    ...(change.adds ?? []).map((id) => `+${name(id)}`),
+    ...(change.removes ?? []).map((id) => `-${name(id)}`),
+  ];
+  return parts.join(" ") || "changed";
+}
+
+/**
+ * The story whose comment_ids gained this comment in the same payload
+ */
+function commentStoryId(payload: ShortcutWebhookPayload, commentId: number): number | undefined {
+  return payload.actions.find(
+    (a) => a.entity_type === "story" && a.changes?.comment_ids?.adds?.includes(commentId)
+  )?.id;
+}
+
+function workspaceSlug(appUrl: string | undefined): string | undefined {
+  return appUrl?.match(/^https:\/\/app\.shortcut\.com\/([^/]+)\//)?.[1];
+}
+
+function excerpt(text: string, max = 120): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? `${line.slice(0, max - 3)}...` : line;
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}